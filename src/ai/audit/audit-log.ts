@@ -0,0 +1,207 @@
+import {appendFile, mkdir, readdir, readFile, unlink} from 'node:fs/promises';
+import path from 'node:path';
+import {z} from 'genkit';
+import {getAiConfig} from '@/ai/config';
+import {DetectionStatusSchema} from '@/ai/schemas/detect-number-of-fingers';
+
+/**
+ * @fileOverview An append-only record of detections, for investigating disputed results.
+ *
+ * - AuditEntrySchema - One recorded detection.
+ * - AuditLog - The interface a store must implement, e.g. to keep entries in a database.
+ * - MemoryAuditLog - Keeps entries in memory, for tests and debugging.
+ * - JsonLinesAuditLog - Appends entries to one JSON-lines file per day.
+ * - getAuditLog - Returns the audit log configured for this process, if any.
+ * - setAuditLog - Records entries in a different store.
+ *
+ * Entries are never modified once written. The only deletion is the
+ * retention policy, which drops entries older than AUDIT_RETENTION_DAYS.
+ * Frames themselves are never stored, at most a hash of them.
+ */
+
+export const AuditEntrySchema = z.object({
+  /** When the detection finished, as an ISO 8601 timestamp. */
+  timestamp: z.string().datetime(),
+  /** The client charged for the detection, e.g. `session:<id>` or `api-key:<id>`. */
+  sessionId: z.string(),
+  /** The telemetry request id, when the detection got far enough to have one. */
+  requestId: z.string().nullable(),
+  result: z.discriminatedUnion('ok', [
+    z.object({ok: z.literal(true), status: DetectionStatusSchema, numberOfFingers: z.number()}),
+    // Kinds are kept as strings so entries written before a kind was renamed still load.
+    z.object({ok: z.literal(false), errorKind: z.string()}),
+  ]),
+  confidence: z.number().nullable(),
+  model: z.string().nullable(),
+  promptVersion: z.string().nullable(),
+  /** Hex SHA-256 of the decoded frame, unless frame hashing is turned off. */
+  frameHash: z.string().nullable(),
+});
+export type AuditEntry = z.infer<typeof AuditEntrySchema>;
+
+export interface AuditQuery {
+  /** Only entries at or after this time. */
+  from?: Date;
+  /** Only entries before this time. */
+  to?: Date;
+  sessionId?: string;
+  /** At most this many entries, the earliest first. */
+  limit?: number;
+}
+
+export interface AuditLog {
+  append(entry: AuditEntry): Promise<void>;
+  /** Entries matching the query, in the order they were recorded. */
+  query(query?: AuditQuery): Promise<AuditEntry[]>;
+  /** Deletes entries older than the retention period. */
+  prune(now?: Date): Promise<void>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function matches(entry: AuditEntry, {from, to, sessionId}: AuditQuery): boolean {
+  const time = Date.parse(entry.timestamp);
+  return (
+    (!from || time >= from.getTime()) &&
+    (!to || time < to.getTime()) &&
+    (!sessionId || entry.sessionId === sessionId)
+  );
+}
+
+/**
+ * Keeps entries for the life of the process. Like JsonLinesAuditLog, it
+ * prunes expired entries on the first entry of each new day.
+ */
+export class MemoryAuditLog implements AuditLog {
+  private entries: AuditEntry[] = [];
+  private currentDay: string | undefined;
+
+  constructor(private readonly retentionDays: number) {}
+
+  async append(entry: AuditEntry) {
+    const day = entry.timestamp.slice(0, 10);
+    if (this.currentDay !== day) {
+      await this.prune(new Date(entry.timestamp));
+      this.currentDay = day;
+    }
+    this.entries.push(entry);
+  }
+
+  async query(query: AuditQuery = {}) {
+    return this.entries.filter(entry => matches(entry, query)).slice(0, query.limit);
+  }
+
+  async prune(now = new Date()) {
+    const cutoff = now.getTime() - this.retentionDays * DAY_MS;
+    this.entries = this.entries.filter(entry => Date.parse(entry.timestamp) >= cutoff);
+  }
+}
+
+const FILE_PATTERN = /^detections-(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+/**
+ * Writes each day's entries to `detections-<yyyy-mm-dd>.jsonl` (UTC) in the
+ * audit directory. Files are only ever appended to, and retention deletes
+ * whole days, so nothing already written is rewritten. Expired days are
+ * pruned on the first entry of each new day.
+ */
+export class JsonLinesAuditLog implements AuditLog {
+  // Appends are chained so lines never interleave and keep their order.
+  private pending: Promise<void> = Promise.resolve();
+  private currentDay: string | undefined;
+
+  constructor(
+    readonly dir: string,
+    private readonly retentionDays: number
+  ) {}
+
+  append(entry: AuditEntry): Promise<void> {
+    const day = entry.timestamp.slice(0, 10);
+    const write = this.pending.then(async () => {
+      if (this.currentDay !== day) {
+        await mkdir(this.dir, {recursive: true});
+        await this.prune(new Date(entry.timestamp));
+        this.currentDay = day;
+      }
+      await appendFile(this.fileFor(day), JSON.stringify(entry) + '\n');
+    });
+    // A failed write is reported to this caller, not to the next one.
+    this.pending = write.catch(() => undefined);
+    return write;
+  }
+
+  async query(query: AuditQuery = {}) {
+    const fromDay = query.from?.toISOString().slice(0, 10);
+    const toDay = query.to?.toISOString().slice(0, 10);
+    const days = (await this.listDays()).filter(day => (!fromDay || day >= fromDay) && (!toDay || day <= toDay));
+    const entries: AuditEntry[] = [];
+    for (const day of days) {
+      const lines = (await readFile(this.fileFor(day), 'utf8')).split('\n').filter(line => line.length > 0);
+      for (const [index, line] of lines.entries()) {
+        const entry = parseEntry(line);
+        if (!entry) {
+          console.warn(`Skipping unreadable audit entry ${this.fileFor(day)}:${index + 1}`);
+        } else if (matches(entry, query)) {
+          entries.push(entry);
+          if (entries.length === query.limit) {
+            return entries;
+          }
+        }
+      }
+    }
+    return entries;
+  }
+
+  async prune(now = new Date()) {
+    const cutoffDay = new Date(now.getTime() - this.retentionDays * DAY_MS).toISOString().slice(0, 10);
+    const expired = (await this.listDays()).filter(day => day < cutoffDay);
+    await Promise.all(expired.map(day => unlink(this.fileFor(day))));
+  }
+
+  /** Days with an audit file, oldest first. */
+  private async listDays(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw err;
+    }
+    return files.flatMap(file => FILE_PATTERN.exec(file)?.[1] ?? []).sort();
+  }
+
+  private fileFor(day: string): string {
+    return path.join(this.dir, `detections-${day}.jsonl`);
+  }
+}
+
+/** Parses one line of an audit file, or returns null if it is truncated or invalid. */
+function parseEntry(line: string): AuditEntry | null {
+  try {
+    const parsed = AuditEntrySchema.safeParse(JSON.parse(line));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+let auditLog: AuditLog | null | undefined;
+
+export function setAuditLog(log: AuditLog | null) {
+  auditLog = log;
+}
+
+export function getAuditLog(): AuditLog | null {
+  if (auditLog === undefined) {
+    const {store, dir, retentionDays} = getAiConfig().audit;
+    auditLog =
+      store === 'jsonl'
+        ? new JsonLinesAuditLog(dir, retentionDays)
+        : store === 'memory'
+          ? new MemoryAuditLog(retentionDays)
+          : null;
+  }
+  return auditLog;
+}
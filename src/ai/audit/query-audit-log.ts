@@ -0,0 +1,77 @@
+import { config } from 'dotenv';
+config();
+
+import {parseArgs} from 'node:util';
+import {getAuditLog} from '@/ai/audit/audit-log';
+import {getAiConfig} from '@/ai/config';
+
+/**
+ * @fileOverview Looks up entries in the detection audit log.
+ *
+ * Usage: npm run audit -- [--from <time>] [--to <time>] [--session <id>] [--limit <n>] [--prune]
+ *
+ * Prints the matching entries as JSON lines, oldest first. Times are anything
+ * `Date` parses, e.g. `2025-03-01` or `2025-03-01T14:30:00Z`; `--to` is
+ * exclusive. `--session` takes the full session id of an entry, such as
+ * `session:<uuid>` or `api-key:<client-id>`. With `--prune`, entries older
+ * than the retention period are deleted first. Only the `jsonl` store can be
+ * queried this way; a `memory` store lives inside the server process.
+ */
+
+const USAGE = 'Usage: npm run audit -- [--from <time>] [--to <time>] [--session <id>] [--limit <n>] [--prune]';
+
+function parseTime(value: string | undefined): Date | undefined | null {
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = new Date(value);
+  return Number.isNaN(time.getTime()) ? null : time;
+}
+
+async function main() {
+  const {values} = parseArgs({
+    options: {
+      from: {type: 'string'},
+      to: {type: 'string'},
+      session: {type: 'string'},
+      limit: {type: 'string'},
+      prune: {type: 'boolean', default: false},
+    },
+  });
+  const from = parseTime(values.from);
+  const to = parseTime(values.to);
+  const limit = values.limit === undefined ? undefined : Number(values.limit);
+  if (from === null || to === null || (limit !== undefined && (!Number.isInteger(limit) || limit < 1))) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (getAiConfig().audit.store === 'memory') {
+    console.error(
+      'AUDIT_LOG=memory keeps entries inside the server process, where this command cannot see them. ' +
+        'Set AUDIT_LOG=jsonl to query them here, or query getAuditLog() from the server.'
+    );
+    process.exitCode = 1;
+    return;
+  }
+  const auditLog = getAuditLog();
+  if (!auditLog) {
+    console.error('No audit log is configured. Set AUDIT_LOG=jsonl to keep one.');
+    process.exitCode = 1;
+    return;
+  }
+  if (values.prune) {
+    await auditLog.prune();
+  }
+  const entries = await auditLog.query({from, to, sessionId: values.session, limit});
+  for (const entry of entries) {
+    console.log(JSON.stringify(entry));
+  }
+  console.error(`${entries.length} entr${entries.length === 1 ? 'y' : 'ies'} found.`);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exitCode = 1;
+});
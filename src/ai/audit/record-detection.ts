@@ -0,0 +1,54 @@
+import {getAuditLog, type AuditEntry} from '@/ai/audit/audit-log';
+import {getAiConfig} from '@/ai/config';
+import {parseDataUri} from '@/ai/image/data-uri';
+import {hashImage} from '@/ai/image/hash';
+import type {DetectNumberOfFingersInput, DetectNumberOfFingersResult} from '@/ai/schemas/detect-number-of-fingers';
+
+/**
+ * @fileOverview Writes finished detections to the audit log.
+ *
+ * - recordDetection - Appends an entry for one detection, if an audit log is configured.
+ */
+
+/**
+ * Never throws: a detection that has already run is returned to the client
+ * even if it cannot be audited, and the failure is logged instead.
+ */
+export async function recordDetection(
+  sessionId: string,
+  input: DetectNumberOfFingersInput,
+  result: DetectNumberOfFingersResult,
+  requestId: string | null
+): Promise<void> {
+  const auditLog = getAuditLog();
+  if (!auditLog) {
+    return;
+  }
+  const output = result.ok ? result.output : null;
+  const entry: AuditEntry = {
+    timestamp: new Date().toISOString(),
+    sessionId,
+    requestId,
+    result: result.ok
+      ? {ok: true, status: result.output.status, numberOfFingers: result.output.numberOfFingers}
+      : {ok: false, errorKind: result.error.kind},
+    confidence: output?.confidence ?? null,
+    model: output?.model ?? null,
+    promptVersion: output?.promptVersion ?? null,
+    frameHash: getAiConfig().audit.hashFrames ? frameHash(input.photoDataUri) : null,
+  };
+  try {
+    await auditLog.append(entry);
+  } catch (err) {
+    console.error('Could not write the detection audit log:', err);
+  }
+}
+
+function frameHash(photoDataUri: string): string | null {
+  try {
+    return hashImage(parseDataUri(photoDataUri).bytes);
+  } catch {
+    // Rejected input that is not even a data URI has no frame to hash.
+    return null;
+  }
+}
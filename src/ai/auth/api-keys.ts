@@ -0,0 +1,94 @@
+import {createHash, timingSafeEqual} from 'node:crypto';
+import {readFile, stat} from 'node:fs/promises';
+import {z} from 'genkit';
+import {getAiConfig} from '@/ai/config';
+
+/**
+ * @fileOverview API keys for the public HTTP endpoints, checked against a local key store.
+ *
+ * - ApiKeyStore - Looks up the client an API key belongs to.
+ * - FileApiKeyStore - A key store backed by a JSON file of hashed keys.
+ * - getApiKeyStore - Returns the key store named in config.
+ * - readApiKey - Reads the API key a request was sent with.
+ * - hashApiKey - Hashes a key the way the key store records it.
+ *
+ * Only SHA-256 hashes of keys are stored, so the file does not leak working
+ * keys. Its format is:
+ *
+ *   {"keys": [{"id": "reporting-service", "sha256": "<hex>", "disabled": false}]}
+ */
+
+const ApiKeyFileSchema = z.object({
+  keys: z.array(
+    z.object({
+      /** Names the client, for logs and quotas; never the key itself. */
+      id: z.string().min(1),
+      sha256: z.string().regex(/^[0-9a-f]{64}$/),
+      disabled: z.boolean().default(false),
+    })
+  ),
+});
+export type ApiKeyFile = z.infer<typeof ApiKeyFileSchema>;
+export type ApiKeyRecord = ApiKeyFile['keys'][number];
+
+export interface ApiKeyStore {
+  /** Returns the record for `apiKey`, or null when it is unknown. Disabled keys are returned too. */
+  find(apiKey: string): Promise<ApiKeyRecord | null>;
+}
+
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+export class FileApiKeyStore implements ApiKeyStore {
+  private loaded: {mtimeMs: number; keys: ApiKeyRecord[]} | undefined;
+
+  constructor(readonly path: string) {}
+
+  async find(apiKey: string): Promise<ApiKeyRecord | null> {
+    const hash = Buffer.from(hashApiKey(apiKey), 'hex');
+    const keys = await this.load();
+    // Compare every entry in constant time, so timing reveals nothing about
+    // how close a guess was.
+    let match: ApiKeyRecord | null = null;
+    for (const record of keys) {
+      if (timingSafeEqual(hash, Buffer.from(record.sha256, 'hex')) && !match) {
+        match = record;
+      }
+    }
+    return match;
+  }
+
+  /** Reads the file again whenever it changes, so keys can be added or revoked without a restart. */
+  private async load(): Promise<ApiKeyRecord[]> {
+    let mtimeMs: number;
+    try {
+      ({mtimeMs} = await stat(this.path));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        console.warn(`API key store ${this.path} does not exist; every API request will be rejected.`);
+        return [];
+      }
+      throw err;
+    }
+    if (this.loaded?.mtimeMs !== mtimeMs) {
+      const file = ApiKeyFileSchema.parse(JSON.parse(await readFile(this.path, 'utf8')));
+      this.loaded = {mtimeMs, keys: file.keys};
+    }
+    return this.loaded.keys;
+  }
+}
+
+let apiKeyStore: ApiKeyStore | undefined;
+
+export function getApiKeyStore(): ApiKeyStore {
+  apiKeyStore ??= new FileApiKeyStore(getAiConfig().api.keysPath);
+  return apiKeyStore;
+}
+
+/** Reads the key from `Authorization: Bearer <key>` or, failing that, `X-API-Key: <key>`. */
+export function readApiKey(request: Request): string | null {
+  const authorization = request.headers.get('authorization');
+  const bearer = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  return bearer ?? (request.headers.get('x-api-key')?.trim() || null);
+}
@@ -0,0 +1,51 @@
+import { config } from 'dotenv';
+config();
+
+import {randomBytes} from 'node:crypto';
+import {readFile, writeFile} from 'node:fs/promises';
+import {getAiConfig} from '@/ai/config';
+import {hashApiKey, type ApiKeyFile} from '@/ai/auth/api-keys';
+
+/**
+ * @fileOverview Issues an API key for the public HTTP endpoints.
+ *
+ * Usage: npm run api-key -- <client-id>
+ *
+ * Adds the hash of a new random key to the key store (API_KEYS_FILE) and
+ * prints the key. The key itself is not stored anywhere, so it cannot be
+ * shown again. To revoke it, set `"disabled": true` on its entry.
+ */
+
+async function main() {
+  const [id] = process.argv.slice(2);
+  if (!id) {
+    console.error('Usage: npm run api-key -- <client-id>');
+    process.exitCode = 1;
+    return;
+  }
+
+  const path = getAiConfig().api.keysPath;
+  let store: ApiKeyFile = {keys: []};
+  try {
+    store = JSON.parse(await readFile(path, 'utf8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw err;
+    }
+  }
+  if (store.keys.some(record => record.id === id)) {
+    console.error(`A key for "${id}" already exists in ${path}.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const apiKey = `fca_${randomBytes(32).toString('base64url')}`;
+  store.keys.push({id, sha256: hashApiKey(apiKey), disabled: false});
+  await writeFile(path, JSON.stringify(store, null, 2) + '\n', {mode: 0o600});
+  console.log(`Added a key for "${id}" to ${path}. It will not be shown again:\n\n${apiKey}`);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,78 @@
+import type {FingerDetection} from '@/ai/detectors';
+import {hammingDistance} from '@/ai/image/hash';
+
+/**
+ * @fileOverview An in-memory cache of detection results for near-identical frames.
+ *
+ * - DetectionCache - Looks up results by perceptual hash within a Hamming distance.
+ * - DetectionCacheOptions - Size, lifetime and similarity settings.
+ */
+
+export interface DetectionCacheOptions {
+  /** Frames whose perceptual hashes differ in at most this many bits are treated as the same. */
+  maxDistance: number;
+  /** How long a result stays usable after it was stored. */
+  ttlMs: number;
+  /** Least recently used entries are evicted beyond this many. */
+  maxEntries: number;
+}
+
+interface CacheEntry {
+  hash: string;
+  detector: string;
+  result: FingerDetection;
+  expiresAt: number;
+}
+
+export class DetectionCache {
+  // Map iteration follows insertion order; entries are re-inserted on every
+  // hit, so the first entry is always the least recently used.
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly options: DetectionCacheOptions) {}
+
+  /** Returns the closest unexpired result from the same detector, if one is within range. */
+  get(hash: string, detector: string, now = Date.now()): FingerDetection | undefined {
+    let best: {entry: CacheEntry; distance: number} | undefined;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+        continue;
+      }
+      if (entry.detector !== detector) {
+        continue;
+      }
+      const distance = hammingDistance(hash, entry.hash);
+      if (distance <= this.options.maxDistance && (!best || distance < best.distance)) {
+        best = {entry, distance};
+      }
+    }
+    if (!best) {
+      return undefined;
+    }
+    const key = cacheKey(best.entry.hash, detector);
+    this.entries.delete(key);
+    this.entries.set(key, best.entry);
+    return best.entry.result;
+  }
+
+  set(hash: string, detector: string, result: FingerDetection, now = Date.now()): void {
+    if (this.options.maxEntries <= 0) {
+      return;
+    }
+    const key = cacheKey(hash, detector);
+    this.entries.delete(key);
+    this.entries.set(key, {hash, detector, result, expiresAt: now + this.options.ttlMs});
+    while (this.entries.size > this.options.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+function cacheKey(hash: string, detector: string): string {
+  return `${detector}:${hash}`;
+}
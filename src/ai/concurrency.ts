@@ -0,0 +1,22 @@
+/**
+ * @fileOverview Runs asynchronous work over a list with a cap on how much runs at once.
+ *
+ * - mapWithConcurrency - Like `Promise.all(items.map(fn))`, but with at most `limit` calls in flight.
+ */
+
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({length: Math.min(Math.max(1, limit), items.length)}, worker));
+  return results;
+}
@@ -0,0 +1,189 @@
+import {z} from 'genkit';
+import {ModelListSchema, ModelNameSchema} from '@/ai/model-fallback';
+import {PromptVersionsSchema} from '@/ai/prompt-versions';
+
+/**
+ * @fileOverview Server-side configuration for the AI features, read from the environment.
+ *
+ * - getAiConfig - Parses and validates the current configuration.
+ * - AiConfig - The validated configuration.
+ */
+
+const AiConfigSchema = z.object({
+  model: z
+    .object({
+      /** Primary Genkit model, e.g. `googleai/gemini-2.0-flash` or `mock/finger-detector`. */
+      name: ModelNameSchema.default('googleai/gemini-2.0-flash'),
+      /** Models to try in order, for finger detection, when the primary keeps failing. */
+      fallbacks: ModelListSchema.default(''),
+      /** Path to the JSON fixtures file answered by the offline `mock/finger-detector` model. */
+      mockFixturesPath: z.string().min(1).optional(),
+    })
+    .refine(({name, fallbacks}) => !fallbacks.includes(name), {
+      message: 'The primary model must not also be listed as a fallback.',
+      path: ['fallbacks'],
+    }),
+  prompt: z.object({
+    /** Version(s) of detectNumberOfFingersPrompt to use, optionally weighted: `v1` or `v1:90,v2:10`. */
+    versions: PromptVersionsSchema.default('v1'),
+  }),
+  detector: z.object({
+    /** Name of the registered finger detector backend to dispatch to. */
+    backend: z.string().min(1).default('genkit'),
+    /** Path to the JSON fixtures file used by the `fixture` backend. */
+    fixturesPath: z.string().min(1).optional(),
+  }),
+  preprocessing: z.object({
+    /** Crop photos to the likely hand before sending them to backends that accept a crop. */
+    handCrop: z
+      .enum(['true', 'false'])
+      .default('true')
+      .transform(value => value === 'true'),
+    /** Longest side, in pixels, of the image sent to the model. */
+    targetSize: z.coerce.number().int().min(128).max(2048).default(512),
+    /** Margin kept around the hand, as a fraction of its longer side. */
+    padding: z.coerce.number().min(0).max(1).default(0.25),
+  }),
+  retry: z.object({
+    /** How long a single model call may take before it is abandoned. */
+    timeoutMs: z.coerce.number().int().positive().default(20_000),
+    /** Total number of model calls, including the first, before giving up. */
+    maxAttempts: z.coerce.number().int().min(1).max(10).default(3),
+    /** Backoff before the first retry; doubles on each later retry. */
+    baseDelayMs: z.coerce.number().int().min(0).default(500),
+    /** Upper bound on the backoff between retries. */
+    maxDelayMs: z.coerce.number().int().min(0).default(8_000),
+  }),
+  cache: z.object({
+    /** Hands whose perceptual hashes differ in at most this many of 256 bits share a result. */
+    maxDistance: z.coerce.number().int().min(0).max(256).default(0),
+    /** How long a cached result stays usable. */
+    ttlMs: z.coerce.number().int().positive().default(5 * 60_000),
+    /** Maximum number of cached results; 0 disables the cache. */
+    maxEntries: z.coerce.number().int().min(0).default(200),
+  }),
+  ensemble: z.object({
+    /** Independent detections per request, majority-voted; 1 disables voting. */
+    size: z.coerce.number().int().min(1).max(9).default(1),
+    /** Sampling temperature for each detection, so the runs are actually independent. */
+    temperature: z.coerce.number().min(0).max(2).optional(),
+  }),
+  batch: z.object({
+    /** Images from one batch request that are detected at the same time. */
+    concurrency: z.coerce.number().int().min(1).max(16).default(4),
+  }),
+  api: z.object({
+    /** JSON file of hashed API keys accepted by the public HTTP endpoints. */
+    keysPath: z.string().min(1).default('api-keys.json'),
+  }),
+  rateLimit: z.object({
+    /** Whether detection requests are rate limited at all. */
+    enabled: z
+      .enum(['true', 'false'])
+      .default('true')
+      .transform(value => value === 'true'),
+    /** Requests a client can make in a quick burst. */
+    burst: z.coerce.number().int().min(1).default(10),
+    /** Sustained requests per minute allowed for each client. */
+    refillPerMinute: z.coerce.number().positive().default(30),
+    /** Images each client may have analyzed per UTC day; 0 means unlimited. */
+    dailyQuota: z.coerce.number().int().min(0).default(1_000),
+    /** Limits for each IP address, as a multiple of the per-client limits, since clients can share an address. */
+    ipFactor: z.coerce.number().min(1).default(5),
+    /** Reverse proxies in front of the app; their X-Forwarded-For entries are trusted, and nothing else is. */
+    trustedProxies: z.coerce.number().int().min(0).max(10).default(0),
+  }),
+  session: z.object({
+    /** Key that session cookies are signed with; a random one is used per process when unset. */
+    secret: z.string().min(32).optional(),
+  }),
+  telemetry: z.object({
+    /** Where detection telemetry events go: nowhere, an in-memory buffer, or a JSON-lines file. */
+    sink: z.enum(['none', 'memory', 'jsonl']).default('none'),
+    /** The file the `jsonl` sink appends to. */
+    filePath: z.string().min(1).default('telemetry/detections.jsonl'),
+  }),
+  audit: z.object({
+    /** Where the detection audit log is kept: nowhere, in memory, or in daily JSON-lines files. */
+    store: z.enum(['none', 'memory', 'jsonl']).default('none'),
+    /** The directory the `jsonl` store writes one file per day to. */
+    dir: z.string().min(1).default('audit'),
+    /** Entries older than this many days are deleted. */
+    retentionDays: z.coerce.number().int().min(1).max(3650).default(90),
+    /** Record a SHA-256 hash of each frame, so a disputed photo can be matched to its entry. */
+    hashFrames: z
+      .enum(['true', 'false'])
+      .default('true')
+      .transform(value => value === 'true'),
+  }),
+});
+export type AiConfig = z.infer<typeof AiConfigSchema>;
+
+export function getAiConfig(): AiConfig {
+  return AiConfigSchema.parse({
+    model: {
+      name: env('GENKIT_MODEL'),
+      fallbacks: env('GENKIT_MODEL_FALLBACKS'),
+      mockFixturesPath: env('MOCK_MODEL_FIXTURES'),
+    },
+    prompt: {
+      versions: env('FINGER_PROMPT_VERSIONS'),
+    },
+    detector: {
+      backend: env('FINGER_DETECTOR_BACKEND'),
+      fixturesPath: env('FINGER_DETECTOR_FIXTURES'),
+    },
+    preprocessing: {
+      handCrop: env('HAND_CROP_ENABLED'),
+      targetSize: env('HAND_CROP_SIZE'),
+      padding: env('HAND_CROP_PADDING'),
+    },
+    retry: {
+      timeoutMs: env('FINGER_DETECTOR_TIMEOUT_MS'),
+      maxAttempts: env('FINGER_DETECTOR_MAX_ATTEMPTS'),
+      baseDelayMs: env('FINGER_DETECTOR_RETRY_BASE_DELAY_MS'),
+      maxDelayMs: env('FINGER_DETECTOR_RETRY_MAX_DELAY_MS'),
+    },
+    cache: {
+      maxDistance: env('DETECTION_CACHE_MAX_DISTANCE'),
+      ttlMs: env('DETECTION_CACHE_TTL_MS'),
+      maxEntries: env('DETECTION_CACHE_MAX_ENTRIES'),
+    },
+    ensemble: {
+      size: env('DETECTION_ENSEMBLE_SIZE'),
+      temperature: env('DETECTION_ENSEMBLE_TEMPERATURE'),
+    },
+    batch: {
+      concurrency: env('DETECTION_BATCH_CONCURRENCY'),
+    },
+    api: {
+      keysPath: env('API_KEYS_FILE'),
+    },
+    rateLimit: {
+      enabled: env('RATE_LIMIT_ENABLED'),
+      burst: env('RATE_LIMIT_BURST'),
+      refillPerMinute: env('RATE_LIMIT_PER_MINUTE'),
+      dailyQuota: env('RATE_LIMIT_DAILY_QUOTA'),
+      ipFactor: env('RATE_LIMIT_IP_FACTOR'),
+      trustedProxies: env('TRUSTED_PROXIES'),
+    },
+    session: {
+      secret: env('SESSION_SECRET'),
+    },
+    telemetry: {
+      sink: env('TELEMETRY_SINK'),
+      filePath: env('TELEMETRY_FILE'),
+    },
+    audit: {
+      store: env('AUDIT_LOG'),
+      dir: env('AUDIT_LOG_DIR'),
+      retentionDays: env('AUDIT_RETENTION_DAYS'),
+      hashFrames: env('AUDIT_HASH_FRAMES'),
+    },
+  });
+}
+
+function env(name: string): string | undefined {
+  // Treat empty variables (e.g. `FOO=` in a .env file) as unset.
+  return process.env[name] || undefined;
+}
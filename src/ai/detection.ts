@@ -0,0 +1,126 @@
+import {randomUUID} from 'node:crypto';
+import {DetectionCache} from '@/ai/cache/detection-cache';
+import {getAiConfig} from '@/ai/config';
+import {getFingerDetector, type DetectOptions, type FingerDetection} from '@/ai/detectors';
+import {detectByVote} from '@/ai/ensemble';
+import {toDetectionError} from '@/ai/errors';
+import {cropToHand, findHand, toFrameCoordinates, toPixelRegion} from '@/ai/image/hand-crop';
+import {perceptualHash} from '@/ai/image/hash';
+import {throwIfCancelled} from '@/ai/retry';
+import {validatePhotoDataUri} from '@/ai/image/validate-photo';
+import type {
+  DetectionStage,
+  DetectNumberOfFingersInput,
+  DetectNumberOfFingersOutput,
+} from '@/ai/schemas/detect-number-of-fingers';
+import {DetectionTrace} from '@/ai/telemetry/detection-event';
+
+/**
+ * @fileOverview The finger detection pipeline shared by every entry point.
+ *
+ * - runFingerDetection - Validates the photo, answers from the cache when it can, and otherwise
+ *   crops it to the hand and dispatches to the configured detector backend, once or as a
+ *   voting ensemble.
+ *
+ * Every call, successful or not, is recorded as a telemetry event (see
+ * src/ai/telemetry).
+ *
+ * Lives outside the 'use server' flow module so that server-only callers can
+ * use it without exposing it as a server action.
+ */
+
+export interface RunFingerDetectionOptions extends DetectOptions {
+  /** Detector backend to use instead of the configured one. */
+  backend?: string;
+  /** Always run the detector, neither reading nor writing the result cache. */
+  skipCache?: boolean;
+  /** Called as the pipeline reaches each stage, e.g. to stream progress to the UI. */
+  onStage?: (stage: DetectionStage) => void;
+  /** Identifies the detection in telemetry; a random id by default. */
+  requestId?: string;
+}
+
+let detectionCache: DetectionCache | undefined;
+
+function getDetectionCache(): DetectionCache {
+  detectionCache ??= new DetectionCache(getAiConfig().cache);
+  return detectionCache;
+}
+
+export async function runFingerDetection(
+  input: DetectNumberOfFingersInput,
+  {requestId = randomUUID(), onStage, ...options}: RunFingerDetectionOptions = {}
+): Promise<DetectNumberOfFingersOutput> {
+  const trace = new DetectionTrace(requestId);
+  const backend = options.backend ?? getAiConfig().detector.backend;
+  try {
+    const output = await detect(input, trace, {
+      ...options,
+      onStage: stage => {
+        trace.stage(stage);
+        onStage?.(stage);
+      },
+    });
+    trace.finish(output);
+    return output;
+  } catch (err) {
+    trace.finish({errorKind: toDetectionError(err).kind, detector: backend});
+    throw err;
+  }
+}
+
+async function detect(
+  input: DetectNumberOfFingersInput,
+  trace: DetectionTrace,
+  {backend, skipCache = false, onStage, ...options}: RunFingerDetectionOptions
+): Promise<DetectNumberOfFingersOutput> {
+  const config = getAiConfig();
+  onStage?.('validating');
+  const photo = await validatePhotoDataUri(input.photoDataUri);
+  const detector = getFingerDetector(backend ?? config.detector.backend);
+
+  onStage?.('preprocessing');
+  const cache = !skipCache && config.cache.maxEntries > 0 ? getDetectionCache() : undefined;
+  const shouldCrop = detector.acceptsHandCrop && config.preprocessing.handCrop;
+  const hand = cache || shouldCrop ? await findHand(photo, config.preprocessing.padding) : null;
+  // Hash the hand rather than the whole frame: a raised finger is a small
+  // part of a frame, and frames of different poses can otherwise look alike.
+  const frameHash = cache
+    ? await perceptualHash(photo.bytes, hand ? toPixelRegion(hand, photo) : undefined)
+    : undefined;
+  const cached = frameHash ? cache?.get(frameHash, detector.name) : undefined;
+  if (cached) {
+    onStage?.('cache_hit');
+    return {...toOutput(cached, detector.name), attempts: 0, cached: true};
+  }
+
+  const crop = shouldCrop ? await cropToHand(photo, hand, config.preprocessing) : undefined;
+  const detectorInput = crop ? {...input, photoDataUri: crop.photoDataUri} : input;
+
+  // Preparing the photo takes a moment; don't call the model for a client that has left.
+  throwIfCancelled(options.signal);
+  onStage?.('model_call');
+  const {size, temperature} = config.ensemble;
+  const answer =
+    size > 1
+      ? await detectByVote(detector, detectorInput, {...options, size, temperature})
+      : await detector.detect(detectorInput, options);
+  // Hand positions are always reported relative to the photo the caller sent.
+  const detection = crop?.region ? toFrameCoordinates(answer, crop.region) : answer;
+  trace.modelAnswered(detection.model, detection.usage);
+  onStage?.('post_validation');
+  // Only reuse confident answers: after an unclear result the user will
+  // usually rescan the same pose hoping for a better one.
+  if (frameHash && detection.status === 'ok') {
+    cache?.set(frameHash, detector.name, detection);
+  }
+  return toOutput(detection, detector.name);
+}
+
+function toOutput(
+  // Token usage is only reported to telemetry.
+  {attempts = 1, promptVersion, model, usage, ...result}: FingerDetection,
+  detector: string
+): DetectNumberOfFingersOutput {
+  return {...result, detector, attempts, cached: false, promptVersion: promptVersion ?? null, model: model ?? null};
+}
@@ -0,0 +1,29 @@
+import {getAiConfig} from '@/ai/config';
+import type {FingerDetection, FingerDetector} from '@/ai/detectors/types';
+import {parseDataUri} from '@/ai/image/data-uri';
+import {hashImage} from '@/ai/image/hash';
+import {loadImageFixtures} from '@/ai/image/image-fixtures';
+import {DetectNumberOfFingersOutputSchema} from '@/ai/schemas/detect-number-of-fingers';
+
+const FingerDetectionSchema = DetectNumberOfFingersOutputSchema.omit({detector: true, attempts: true, cached: true, promptVersion: true, model: true});
+
+const NO_HAND: FingerDetection = {status: 'no_hand', confidence: 1, hands: [], numberOfFingers: 0};
+
+/**
+ * Returns canned results from the fixtures file named by
+ * `FINGER_DETECTOR_FIXTURES` (see src/ai/image/image-fixtures.ts), without any
+ * network or model access. With no file configured every image is reported
+ * as having no hand.
+ */
+export const fixtureFingerDetector: FingerDetector = {
+  name: 'fixture',
+  async detect({photoDataUri}) {
+    const {fixturesPath} = getAiConfig().detector;
+    if (!fixturesPath) {
+      return NO_HAND;
+    }
+    const fixtures = await loadImageFixtures(fixturesPath, FingerDetectionSchema);
+    const hash = hashImage(parseDataUri(photoDataUri).bytes);
+    return fixtures.byHash.get(hash) ?? fixtures.default ?? NO_HAND;
+  },
+};
@@ -0,0 +1,136 @@
+import {GenkitError} from 'genkit';
+import {getAiConfig} from '@/ai/config';
+import {ai, PROMPT_DIR} from '@/ai/genkit';
+import type {FingerDetector, TokenUsage} from '@/ai/detectors/types';
+import {DetectionFailure, detectionError} from '@/ai/errors';
+import {isModelNotFound, withModelFallback} from '@/ai/model-fallback';
+import {MOCK_FINGER_DETECTOR_MODEL} from '@/ai/plugins/mock-model';
+import {checkPromptFiles, pickPromptVersion} from '@/ai/prompt-versions';
+import {throwIfCancelled, withRetries} from '@/ai/retry';
+import {
+  DetectNumberOfFingersInputSchema,
+  DetectNumberOfFingersPromptOutputSchema,
+  FINGER_NAMES,
+  type BoundingBox,
+  type DetectedHand,
+  type PromptHand,
+} from '@/ai/schemas/detect-number-of-fingers';
+
+const PROMPT_NAME = 'detectNumberOfFingersPrompt';
+
+checkPromptFiles(PROMPT_DIR, PROMPT_NAME, getAiConfig().prompt.versions);
+
+// Prompt files refer to their schemas by these names.
+ai.defineSchema('DetectNumberOfFingersInput', DetectNumberOfFingersInputSchema);
+ai.defineSchema('DetectNumberOfFingersPromptOutput', DetectNumberOfFingersPromptOutputSchema);
+
+/**
+ * Asks the configured Genkit model to analyze the photo, with a timeout on
+ * each call and retries for transient failures. If the model still fails,
+ * the configured fallback models are tried in turn (see
+ * src/ai/model-fallback.ts). The prompt version is picked per request from
+ * config (see src/ai/prompt-versions.ts).
+ */
+export const genkitFingerDetector: FingerDetector = {
+  name: 'genkit',
+  // The mock model looks photos up by their exact bytes, so it must see the
+  // photo the caller sent.
+  get acceptsHandCrop() {
+    return getAiConfig().model.name !== MOCK_FINGER_DETECTOR_MODEL;
+  },
+  async detect(input, {signal, temperature} = {}) {
+    const config = getAiConfig();
+    const promptVersion = pickPromptVersion(config.prompt.versions);
+    const prompt = ai.prompt<typeof DetectNumberOfFingersInputSchema, typeof DetectNumberOfFingersPromptOutputSchema>(
+      PROMPT_NAME,
+      {variant: promptVersion}
+    );
+    // Load the prompt before any model is tried. Genkit reports a missing
+    // prompt as NOT_FOUND, just like a missing model, but it is a
+    // configuration error that no fallback model can work around.
+    try {
+      await prompt.render(input);
+    } catch (err) {
+      if (err instanceof GenkitError && err.status === 'NOT_FOUND') {
+        throw new Error(`Prompt version "${promptVersion}" of ${PROMPT_NAME} is not loaded; check FINGER_PROMPT_VERSIONS.`, {
+          cause: err,
+        });
+      }
+      throw err;
+    }
+    // Every answered call is billed, including ones that are then retried.
+    const usage: TokenUsage = {inputTokens: 0, outputTokens: 0, totalTokens: 0};
+    // Counted across every model tried, since a missing model gives up early.
+    let attempts = 0;
+    const {
+      value: {value: output},
+      model,
+    } = await withModelFallback([config.model.name, ...config.model.fallbacks], model =>
+      withRetries(
+        async attemptSignal => {
+          // Genkit 1.8 cannot abort a generate call once it is sent, so a call
+          // that times out or is cancelled still runs, and is billed, in the
+          // background. The most that can be done is not to start one.
+          throwIfCancelled(attemptSignal);
+          attempts++;
+          const response = await prompt(input, {model, ...(temperature === undefined ? {} : {config: {temperature}})});
+          usage.inputTokens += response.usage.inputTokens ?? 0;
+          usage.outputTokens += response.usage.outputTokens ?? 0;
+          usage.totalTokens += response.usage.totalTokens ?? 0;
+          const {output} = response;
+          if (!output) {
+            throw new DetectionFailure(detectionError('malformed_output'));
+          }
+          return output;
+        },
+        // A missing model stays missing; move on to the next one instead.
+        {...config.retry, signal, shouldRetry: err => !isModelNotFound(err)}
+      )
+    );
+    const {status, confidence} = output;
+    const hands = status === 'no_hand' ? [] : output.hands.slice(0, 2).map(toDetectedHand);
+    return {
+      // A model that claims a usable result without reporting any hand has not
+      // actually found one.
+      status: status === 'ok' && hands.length === 0 ? 'no_hand' : status,
+      confidence,
+      hands,
+      numberOfFingers: hands.reduce((total, hand) => total + hand.numberOfFingers, 0),
+      attempts,
+      promptVersion,
+      model,
+      usage,
+    };
+  },
+};
+
+function toDetectedHand({
+  handedness,
+  boundingBox,
+  fingertips,
+  fingers,
+  numberOfFingers: reportedCount,
+}: PromptHand): DetectedHand {
+  // The per-finger states are the source of truth; the model's own count is
+  // only used to flag responses that contradict themselves.
+  const numberOfFingers = FINGER_NAMES.filter(name => fingers[name] === 'extended').length;
+  return {
+    handedness,
+    boundingBox: clampBoundingBox(boundingBox),
+    // Only keep tips for fingers that the states say are actually extended.
+    fingertips: fingertips.filter(tip => fingers[tip.finger] === 'extended'),
+    fingers,
+    numberOfFingers,
+    countMatchesFingers: reportedCount === numberOfFingers,
+  };
+}
+
+function clampBoundingBox({x, y, width, height}: BoundingBox): BoundingBox {
+  // Keep boxes that run off the right or bottom edge inside the image.
+  return {
+    x,
+    y,
+    width: Math.min(width, 1 - x),
+    height: Math.min(height, 1 - y),
+  };
+}
@@ -0,0 +1,19 @@
+/**
+ * @fileOverview Registers the built-in finger detector backends.
+ *
+ * - genkit - Asks the configured Genkit model (the default).
+ * - fixture - Returns canned results from a local fixtures file.
+ * - local - Counts fingers with skin-tone segmentation, no model involved.
+ */
+
+import {fixtureFingerDetector} from '@/ai/detectors/fixture-detector';
+import {genkitFingerDetector} from '@/ai/detectors/genkit-detector';
+import {localFingerDetector} from '@/ai/detectors/local-detector';
+import {registerFingerDetector} from '@/ai/detectors/registry';
+
+registerFingerDetector(genkitFingerDetector);
+registerFingerDetector(fixtureFingerDetector);
+registerFingerDetector(localFingerDetector);
+
+export {getFingerDetector, listFingerDetectors, registerFingerDetector} from '@/ai/detectors/registry';
+export type {DetectOptions, FingerDetection, FingerDetector, TokenUsage} from '@/ai/detectors/types';
@@ -0,0 +1,120 @@
+import type {FingerDetector} from '@/ai/detectors/types';
+import {parseDataUri} from '@/ai/image/data-uri';
+import {findLargestRegion, loadSkinMask, type SkinRegion} from '@/ai/image/skin-regions';
+import type {FingerName, FingerState, Fingertip} from '@/ai/schemas/detect-number-of-fingers';
+
+/** Regions smaller than this fraction of the frame are treated as noise, not a hand. */
+const MIN_HAND_AREA_FRACTION = 0.02;
+/** Rows of the hand's bounding box, as fractions of its height, scanned for raised fingers. */
+const SCAN_ROWS = [0.15, 0.2, 0.25, 0.3, 0.35, 0.4];
+/** A run of skin wider than this fraction of the hand is the palm, not a finger. */
+const MAX_FINGER_WIDTH_FRACTION = 0.35;
+/** Order in which fingers are reported extended; the heuristic cannot tell them apart. */
+const FINGER_ORDER: FingerName[] = ['index', 'middle', 'ring', 'pinky', 'thumb'];
+
+/**
+ * A model-free backend that segments skin-coloured pixels, takes the largest
+ * region as the hand and counts the separate finger-width runs crossing a few
+ * rows near the top of it. It assumes a single upright hand against a
+ * non-skin background and cannot identify individual fingers, so results are
+ * best used as a baseline for comparing other backends.
+ */
+export const localFingerDetector: FingerDetector = {
+  name: 'local',
+  async detect({photoDataUri}) {
+    const mask = await loadSkinMask(parseDataUri(photoDataUri).bytes);
+    const region = findLargestRegion(mask);
+    if (!region || region.area < mask.width * mask.height * MIN_HAND_AREA_FRACTION) {
+      return {status: 'no_hand', confidence: 1, hands: [], numberOfFingers: 0};
+    }
+
+    const rowCounts = SCAN_ROWS.map(fraction => findFingerRuns(region, mask.width, fraction));
+    const {count, votes} = mostCommonCount(rowCounts.map(runs => runs.length));
+    const confidence = votes / SCAN_ROWS.length;
+    const tipRuns = rowCounts.find(runs => runs.length === count) ?? [];
+
+    const boxWidth = region.right - region.left + 1;
+    const boxHeight = region.bottom - region.top + 1;
+    const centreX = (region.left + boxWidth / 2) / mask.width;
+    const extended = FINGER_ORDER.slice(0, count);
+    const fingers = Object.fromEntries(
+      FINGER_ORDER.map(name => [name, extended.includes(name) ? 'extended' : 'folded'])
+    ) as Record<FingerName, FingerState>;
+    const fingertips: Fingertip[] = tipRuns.map((run, index) => ({
+      finger: extended[index],
+      x: (run.start + run.end) / 2 / mask.width,
+      y: findTopOfRun(region, mask.width, run) / mask.height,
+    }));
+
+    return {
+      status: confidence >= 0.5 ? 'ok' : 'ambiguous',
+      confidence,
+      hands: [
+        {
+          // Facing the camera, a hand on the left of the unmirrored frame is
+          // the person's right hand.
+          handedness: centreX < 0.5 ? 'right' : 'left',
+          boundingBox: {
+            x: region.left / mask.width,
+            y: region.top / mask.height,
+            width: boxWidth / mask.width,
+            height: boxHeight / mask.height,
+          },
+          fingertips,
+          fingers,
+          numberOfFingers: count,
+          countMatchesFingers: true,
+        },
+      ],
+      numberOfFingers: count,
+    };
+  },
+};
+
+interface Run {
+  start: number;
+  end: number;
+}
+
+function findFingerRuns(region: SkinRegion, maskWidth: number, rowFraction: number): Run[] {
+  const y = Math.round(region.top + (region.bottom - region.top) * rowFraction);
+  const maxWidth = (region.right - region.left + 1) * MAX_FINGER_WIDTH_FRACTION;
+  const runs: Run[] = [];
+  let start = -1;
+  for (let x = region.left; x <= region.right + 1; x++) {
+    const isSkin = x <= region.right && region.pixels[y * maskWidth + x] === 1;
+    if (isSkin && start < 0) {
+      start = x;
+    } else if (!isSkin && start >= 0) {
+      // Ignore single-pixel speckles as well as palm-width runs.
+      const width = x - start;
+      if (width >= 2 && width <= maxWidth) {
+        runs.push({start, end: x - 1});
+      }
+      start = -1;
+    }
+  }
+  return runs.slice(0, FINGER_ORDER.length);
+}
+
+function findTopOfRun(region: SkinRegion, maskWidth: number, run: Run): number {
+  const x = Math.round((run.start + run.end) / 2);
+  for (let y = region.top; y <= region.bottom; y++) {
+    if (region.pixels[y * maskWidth + x]) {
+      return y;
+    }
+  }
+  return region.top;
+}
+
+function mostCommonCount(counts: number[]): {count: number; votes: number} {
+  const tally = new Map<number, number>();
+  counts.forEach(count => tally.set(count, (tally.get(count) ?? 0) + 1));
+  let best = {count: 0, votes: 0};
+  tally.forEach((votes, count) => {
+    if (votes > best.votes) {
+      best = {count, votes};
+    }
+  });
+  return best;
+}
@@ -0,0 +1,22 @@
+import type {FingerDetector} from '@/ai/detectors/types';
+
+const detectors = new Map<string, FingerDetector>();
+
+/** Makes a detector available for selection by name. Later registrations replace earlier ones. */
+export function registerFingerDetector(detector: FingerDetector): void {
+  detectors.set(detector.name, detector);
+}
+
+export function getFingerDetector(name: string): FingerDetector {
+  const detector = detectors.get(name);
+  if (!detector) {
+    throw new Error(
+      `Unknown finger detector backend "${name}". Registered backends: ${listFingerDetectors().join(', ') || 'none'}.`
+    );
+  }
+  return detector;
+}
+
+export function listFingerDetectors(): string[] {
+  return [...detectors.keys()];
+}
@@ -0,0 +1,45 @@
+import type {DetectNumberOfFingersInput, DetectNumberOfFingersOutput} from '@/ai/schemas/detect-number-of-fingers';
+
+/** Tokens spent on model calls, as reported by the model provider. */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * The result of a detector, before the pipeline stamps the backend name on
+ * it. Backends that retry report how many attempts they made, and backends
+ * that use a prompt report its version. Backends that call a model report
+ * which one answered and, for telemetry, the tokens it used.
+ */
+export type FingerDetection = Omit<DetectNumberOfFingersOutput, 'detector' | 'attempts' | 'cached' | 'promptVersion' | 'model'> & {
+  attempts?: number;
+  promptVersion?: string;
+  model?: string;
+  usage?: TokenUsage;
+};
+
+export interface DetectOptions {
+  /** Aborted when the caller no longer wants the result. */
+  signal?: AbortSignal;
+  /** Sampling temperature, for backends that sample from a model. */
+  temperature?: number;
+}
+
+/**
+ * A backend that can count the fingers in a photo. Every backend returns the
+ * same normalized result so the flow and the UI never need to know which one
+ * answered.
+ */
+export interface FingerDetector {
+  /** Unique name used to select this backend in config. */
+  readonly name: string;
+  /**
+   * Whether the pipeline may crop the photo to the likely hand before calling
+   * `detect` (see src/ai/image/hand-crop.ts). Backends that look photos up by
+   * their exact bytes, or find the hand themselves, leave this unset.
+   */
+  readonly acceptsHandCrop?: boolean;
+  detect(input: DetectNumberOfFingersInput, options?: DetectOptions): Promise<FingerDetection>;
+}
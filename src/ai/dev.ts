@@ -1,4 +1,8 @@
 import { config } from 'dotenv';
 config();
 
-import '@/ai/flows/detect-number-of-fingers.ts';
\ No newline at end of file
+import '@/ai/flows/detect-number-of-fingers-flow.ts';
+import '@/ai/flows/recognize-sign-numeral.ts';
+import '@/ai/flows/recognize-hand-gesture.ts';
+import '@/ai/flows/detect-finger-batch.ts';
+import '@/ai/flows/detect-fingers-over-time.ts';
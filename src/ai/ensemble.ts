@@ -0,0 +1,67 @@
+import type {DetectOptions, FingerDetection, FingerDetector, TokenUsage} from '@/ai/detectors';
+import type {DetectNumberOfFingersInput} from '@/ai/schemas/detect-number-of-fingers';
+
+/**
+ * @fileOverview Self-consistency voting over several independent detections.
+ *
+ * - detectByVote - Runs a detector several times and returns the majority answer.
+ *
+ * Each run votes for its finger count, or for its status when it has no
+ * usable count. The most common vote wins and the share of runs that agreed
+ * with it becomes the confidence. A tie for first place is reported as an
+ * ambiguous result rather than picking a winner arbitrarily.
+ */
+
+export interface EnsembleOptions extends DetectOptions {
+  /** Number of independent detections to run. */
+  size: number;
+}
+
+export async function detectByVote(
+  detector: FingerDetector,
+  input: DetectNumberOfFingersInput,
+  {size, ...detectOptions}: EnsembleOptions
+): Promise<FingerDetection> {
+  const settled = await Promise.allSettled(
+    Array.from({length: size}, () => detector.detect(input, detectOptions))
+  );
+  const detections = settled.flatMap(outcome => (outcome.status === 'fulfilled' ? [outcome.value] : []));
+  if (detections.length === 0) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+  const attempts = detections.reduce((total, detection) => total + (detection.attempts ?? 1), 0);
+  const usage = sumUsage(detections);
+
+  const ballots = new Map<string, FingerDetection[]>();
+  detections.forEach(detection => {
+    const vote = detection.status === 'ok' ? `count:${detection.numberOfFingers}` : detection.status;
+    ballots.set(vote, [...(ballots.get(vote) ?? []), detection]);
+  });
+  const ranked = [...ballots.values()].sort((a, b) => b.length - a.length);
+  // Failed runs count against agreement, so a 2-of-5 majority with three
+  // errors is not reported as unanimous.
+  const confidence = ranked[0].length / size;
+
+  if (ranked.length > 1 && ranked[1].length === ranked[0].length) {
+    return {status: 'ambiguous', confidence, hands: [], numberOfFingers: 0, attempts, model: detections[0].model, usage};
+  }
+
+  // Report the winning run the model itself was most sure about.
+  const representative = ranked[0].reduce((best, detection) =>
+    detection.confidence > best.confidence ? detection : best
+  );
+  return {...representative, confidence, attempts, usage};
+}
+
+/** Every run was paid for, not just the winners. */
+function sumUsage(detections: FingerDetection[]): TokenUsage | undefined {
+  const reported = detections.flatMap(detection => (detection.usage ? [detection.usage] : []));
+  if (reported.length === 0) {
+    return undefined;
+  }
+  return reported.reduce((total, usage) => ({
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+  }));
+}
@@ -0,0 +1,136 @@
+import {GenerationBlockedError, GenerationResponseError, GenkitError, z} from 'genkit';
+import {ValidationError} from 'genkit/schema';
+import {PHOTO_VALIDATION_CODES, PhotoValidationError} from '@/ai/image/validate-photo';
+
+/**
+ * @fileOverview The ways a finger detection can fail, as plain serializable values.
+ *
+ * - DetectionError - A discriminated union of failures, keyed by `kind`.
+ * - DetectionErrorSchema - The schema for DetectionError, for flows that return failures as data.
+ * - DetectionFailure - An Error carrying a DetectionError, for throwing inside flows and detectors.
+ * - detectionError - Builds a DetectionError with its default user-facing message.
+ * - toDetectionError - Classifies any thrown value as a DetectionError.
+ * - checkInput - Checks a request against a flow's input schema, returning the DetectionError if it fails.
+ */
+
+export const DetectionErrorSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('invalid_input'),
+    /** What was wrong with the photo, or `invalid_request` for input that does not match the schema. */
+    code: z.enum([...PHOTO_VALIDATION_CODES, 'invalid_request']),
+    message: z.string(),
+    retryable: z.literal(false),
+  }),
+  z.object({kind: z.literal('model_unavailable'), message: z.string(), retryable: z.literal(true)}),
+  z.object({
+    kind: z.literal('rate_limited'),
+    message: z.string(),
+    retryable: z.literal(true),
+    /** When known, how long to wait before trying again. */
+    retryAfterMs: z.number().int().min(0).optional(),
+  }),
+  z.object({
+    kind: z.literal('quota_exceeded'),
+    message: z.string(),
+    retryable: z.literal(false),
+    /** When the daily quota resets, in milliseconds since the epoch. */
+    resetsAt: z.number().int(),
+  }),
+  z.object({kind: z.literal('safety_blocked'), message: z.string(), retryable: z.literal(false)}),
+  z.object({kind: z.literal('malformed_output'), message: z.string(), retryable: z.literal(true)}),
+  z.object({kind: z.literal('timeout'), message: z.string(), retryable: z.literal(true)}),
+  z.object({kind: z.literal('cancelled'), message: z.string(), retryable: z.literal(false)}),
+]);
+export type DetectionError = z.infer<typeof DetectionErrorSchema>;
+export type DetectionErrorKind = DetectionError['kind'];
+
+/** Kinds that carry more than a message, and so are not built by detectionError. */
+type DetailedErrorKind = 'invalid_input' | 'quota_exceeded';
+
+const DEFAULT_MESSAGES: Record<Exclude<DetectionErrorKind, DetailedErrorKind>, string> = {
+  model_unavailable: 'The detection service is unavailable right now. Please try again in a moment.',
+  rate_limited: 'Too many detection requests. Please wait a moment and try again.',
+  safety_blocked: 'The photo was blocked by the content safety filter. Please try a different photo.',
+  malformed_output: 'The detector returned an answer that could not be understood. Please try again.',
+  timeout: 'Detection took too long to respond. Please try again.',
+  cancelled: 'Detection was cancelled.',
+};
+
+export function detectionError(
+  kind: Exclude<DetectionErrorKind, DetailedErrorKind>,
+  message: string = DEFAULT_MESSAGES[kind]
+): DetectionError {
+  switch (kind) {
+    case 'safety_blocked':
+    case 'cancelled':
+      return {kind, message, retryable: false};
+    default:
+      return {kind, message, retryable: true};
+  }
+}
+
+export class DetectionFailure extends Error {
+  constructor(
+    readonly error: DetectionError,
+    options?: {cause?: unknown}
+  ) {
+    super(error.message, options);
+    this.name = 'DetectionFailure';
+  }
+}
+
+export function toDetectionError(err: unknown): DetectionError {
+  if (err instanceof DetectionFailure) {
+    return err.error;
+  }
+  if (err instanceof PhotoValidationError) {
+    return {kind: 'invalid_input', code: err.code, message: err.message, retryable: false};
+  }
+  if (err instanceof GenerationBlockedError) {
+    return detectionError('safety_blocked');
+  }
+  if (err instanceof GenerationResponseError || err instanceof ValidationError) {
+    // The model answered, but with no message or output that fails the schema.
+    // Requests are checked with checkInput before a flow runs, so a schema
+    // failure here is never the caller's input.
+    return detectionError('malformed_output');
+  }
+  if (err instanceof GenkitError) {
+    switch (err.status) {
+      case 'RESOURCE_EXHAUSTED':
+        return detectionError('rate_limited');
+      case 'DEADLINE_EXCEEDED':
+        return detectionError('timeout');
+    }
+  }
+  // Model SDKs report HTTP failures with the response status attached.
+  const httpStatus = (err as {status?: unknown} | null)?.status;
+  if (httpStatus === 429) {
+    return detectionError('rate_limited');
+  }
+  if (httpStatus === 408 || httpStatus === 504) {
+    return detectionError('timeout');
+  }
+  return detectionError('model_unavailable');
+}
+
+/**
+ * Returns null when `input` matches `schema`, or the `invalid_input` error to
+ * report. Entry points call this before running a flow: the flow's own check
+ * throws a Genkit ValidationError, which looks the same as a model answer
+ * that failed its output schema.
+ */
+export function checkInput(schema: z.ZodTypeAny, input: unknown): DetectionError | null {
+  const parsed = schema.safeParse(input);
+  if (parsed.success) {
+    return null;
+  }
+  const [issue] = parsed.error.issues;
+  const field = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+  return {
+    kind: 'invalid_input',
+    code: 'invalid_request',
+    message: `Invalid request. ${field}${issue.message}`,
+    retryable: false,
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * @fileOverview Accuracy metrics for a labelled evaluation run.
+ *
+ * - computeMetrics - Summarizes expected/predicted label pairs and latencies.
+ * - EvalMetrics - Accuracy, per-class precision and recall, confusion matrix and latency percentiles.
+ */
+
+export interface EvalSample {
+  expected: string;
+  predicted: string;
+  latencyMs: number;
+}
+
+export interface ClassMetrics {
+  label: string;
+  /** Samples whose expected label is this class. */
+  support: number;
+  /** Null when nothing was predicted as this class. */
+  precision: number | null;
+  /** Null when no sample is expected to be this class. */
+  recall: number | null;
+}
+
+export interface LatencySummary {
+  meanMs: number;
+  p50Ms: number;
+  p90Ms: number;
+  p95Ms: number;
+  p99Ms: number;
+  maxMs: number;
+}
+
+export interface EvalMetrics {
+  total: number;
+  correct: number;
+  accuracy: number;
+  /** Every label that was expected or predicted, in display order. */
+  labels: string[];
+  perClass: ClassMetrics[];
+  /** `confusionMatrix[expected][predicted]` is the number of samples with that pair of labels. */
+  confusionMatrix: Record<string, Record<string, number>>;
+  latency: LatencySummary;
+}
+
+export function computeMetrics(samples: EvalSample[]): EvalMetrics {
+  const labels = sortLabels([...new Set(samples.flatMap(({expected, predicted}) => [expected, predicted]))]);
+  const confusionMatrix = Object.fromEntries(
+    labels.map(expected => [expected, Object.fromEntries(labels.map(predicted => [predicted, 0]))])
+  );
+  samples.forEach(({expected, predicted}) => confusionMatrix[expected][predicted]++);
+
+  const perClass = labels.map((label): ClassMetrics => {
+    const truePositives = confusionMatrix[label][label];
+    const support = labels.reduce((sum, predicted) => sum + confusionMatrix[label][predicted], 0);
+    const predictedCount = labels.reduce((sum, expected) => sum + confusionMatrix[expected][label], 0);
+    return {
+      label,
+      support,
+      precision: predictedCount > 0 ? truePositives / predictedCount : null,
+      recall: support > 0 ? truePositives / support : null,
+    };
+  });
+
+  const correct = samples.filter(({expected, predicted}) => expected === predicted).length;
+  return {
+    total: samples.length,
+    correct,
+    accuracy: samples.length > 0 ? correct / samples.length : 0,
+    labels,
+    perClass,
+    confusionMatrix,
+    latency: summarizeLatency(samples.map(({latencyMs}) => latencyMs)),
+  };
+}
+
+function summarizeLatency(latencies: number[]): LatencySummary {
+  const sorted = [...latencies].sort((a, b) => a - b);
+  const total = sorted.reduce((sum, latency) => sum + latency, 0);
+  return {
+    meanMs: sorted.length > 0 ? total / sorted.length : 0,
+    p50Ms: percentile(sorted, 50),
+    p90Ms: percentile(sorted, 90),
+    p95Ms: percentile(sorted, 95),
+    p99Ms: percentile(sorted, 99),
+    maxMs: sorted[sorted.length - 1] ?? 0,
+  };
+}
+
+/** Nearest-rank percentile of an ascending list. */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+/** Numeric counts first, in numeric order, then named outcomes alphabetically. */
+function sortLabels(labels: string[]): string[] {
+  return labels.sort((a, b) => {
+    const [numberA, numberB] = [Number(a), Number(b)];
+    const [isNumberA, isNumberB] = [Number.isInteger(numberA), Number.isInteger(numberB)];
+    if (isNumberA && isNumberB) {
+      return numberA - numberB;
+    }
+    if (isNumberA !== isNumberB) {
+      return isNumberA ? -1 : 1;
+    }
+    return a.localeCompare(b);
+  });
+}
@@ -0,0 +1,84 @@
+import type {EvalMetrics} from '@/ai/eval/metrics';
+
+/**
+ * @fileOverview Renders evaluation results for people and machines.
+ *
+ * - EvalReport - Everything recorded about one evaluation run.
+ * - renderMarkdownReport - Formats a report as Markdown.
+ */
+
+export interface EvalReport {
+  dataset: string;
+  backend: string;
+  startedAt: string;
+  metrics: EvalMetrics;
+  /** Per-image outcomes, in manifest order. */
+  samples: {
+    file: string;
+    expected: string;
+    predicted: string;
+    latencyMs: number;
+    confidence?: number;
+    error?: string;
+  }[];
+}
+
+export function renderMarkdownReport({dataset, backend, startedAt, metrics, samples}: EvalReport): string {
+  const {labels, confusionMatrix, latency} = metrics;
+  const lines = [
+    `# Finger detection evaluation`,
+    '',
+    `- Dataset: \`${dataset}\``,
+    `- Backend: \`${backend}\``,
+    `- Started: ${startedAt}`,
+    `- Images: ${metrics.total}`,
+    `- Accuracy: **${percent(metrics.accuracy)}** (${metrics.correct}/${metrics.total})`,
+    '',
+    '## Per-class precision and recall',
+    '',
+    '| Class | Support | Precision | Recall |',
+    '| --- | ---: | ---: | ---: |',
+    ...metrics.perClass.map(
+      ({label, support, precision, recall}) =>
+        `| ${label} | ${support} | ${precision === null ? 'n/a' : percent(precision)} | ${recall === null ? 'n/a' : percent(recall)} |`
+    ),
+    '',
+    '## Confusion matrix',
+    '',
+    'Rows are expected labels, columns are predicted labels.',
+    '',
+    `| expected \\ predicted | ${labels.join(' | ')} |`,
+    `| --- | ${labels.map(() => '---:').join(' | ')} |`,
+    ...labels.map(expected => `| **${expected}** | ${labels.map(predicted => confusionMatrix[expected][predicted]).join(' | ')} |`),
+    '',
+    '## Latency',
+    '',
+    '| Mean | p50 | p90 | p95 | p99 | Max |',
+    '| ---: | ---: | ---: | ---: | ---: | ---: |',
+    `| ${[latency.meanMs, latency.p50Ms, latency.p90Ms, latency.p95Ms, latency.p99Ms, latency.maxMs].map(ms).join(' | ')} |`,
+  ];
+
+  const misses = samples.filter(({expected, predicted}) => expected !== predicted);
+  if (misses.length > 0) {
+    lines.push(
+      '',
+      '## Misclassified images',
+      '',
+      '| Image | Expected | Predicted | Note |',
+      '| --- | --- | --- | --- |',
+      ...misses.map(
+        ({file, expected, predicted, confidence, error}) =>
+          `| ${file} | ${expected} | ${predicted} | ${error ?? (confidence === undefined ? '' : `confidence ${percent(confidence)}`)} |`
+      )
+    );
+  }
+  return lines.join('\n') + '\n';
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function ms(value: number): string {
+  return `${Math.round(value)} ms`;
+}
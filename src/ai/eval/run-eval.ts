@@ -0,0 +1,114 @@
+import { config } from 'dotenv';
+config();
+
+import {mkdir, readFile, writeFile} from 'node:fs/promises';
+import path from 'node:path';
+import {parseArgs} from 'node:util';
+import {z} from 'genkit';
+import {mapWithConcurrency} from '@/ai/concurrency';
+import {getAiConfig} from '@/ai/config';
+import {runFingerDetection} from '@/ai/detection';
+import {toDetectionError} from '@/ai/errors';
+import {computeMetrics} from '@/ai/eval/metrics';
+import {renderMarkdownReport, type EvalReport} from '@/ai/eval/report';
+import type {DetectNumberOfFingersOutput} from '@/ai/schemas/detect-number-of-fingers';
+
+/**
+ * @fileOverview Measures finger detection accuracy against a labelled dataset.
+ *
+ * Usage: npm run eval -- <dataset-dir> [--backend <name>] [--out <dir>] [--concurrency <n>]
+ *
+ * The dataset directory holds the images and a manifest.json:
+ *
+ *   {"images": [{"file": "two.jpg", "expected": 2}, {"file": "empty.jpg", "expected": "no_hand"}]}
+ *
+ * Each image runs through the same pipeline as the app, using the configured
+ * detector backend unless --backend is given, with the result cache bypassed.
+ * A result with status ok is labelled with its finger count, no_hand as
+ * "no_hand", any other status as "rejected", and a failure as "error".
+ * Results are written to the output directory as JSON and Markdown. With the
+ * `fixture` backend, or the `mock/finger-detector` model, no network is needed.
+ */
+
+const ManifestSchema = z.object({
+  images: z
+    .array(
+      z.object({
+        file: z.string().min(1),
+        expected: z.union([z.number().int().min(0), z.literal('no_hand')]),
+      })
+    )
+    .min(1),
+});
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
+function labelFor(output: DetectNumberOfFingersOutput): string {
+  switch (output.status) {
+    case 'ok':
+      return String(output.numberOfFingers);
+    case 'no_hand':
+      return 'no_hand';
+    default:
+      return 'rejected';
+  }
+}
+
+async function main() {
+  const {values, positionals} = parseArgs({
+    allowPositionals: true,
+    options: {
+      backend: {type: 'string'},
+      out: {type: 'string', default: 'eval-results'},
+      concurrency: {type: 'string', default: '1'},
+    },
+  });
+  const [datasetDir] = positionals;
+  const concurrency = Number(values.concurrency);
+  if (!datasetDir || !Number.isInteger(concurrency) || concurrency < 1) {
+    console.error('Usage: npm run eval -- <dataset-dir> [--backend <name>] [--out <dir>] [--concurrency <n>]');
+    process.exitCode = 1;
+    return;
+  }
+
+  const backend = values.backend ?? getAiConfig().detector.backend;
+  const manifest = ManifestSchema.parse(JSON.parse(await readFile(path.join(datasetDir, 'manifest.json'), 'utf8')));
+  const startedAt = new Date().toISOString();
+
+  // Latency is measured per image, so keep concurrency low when it matters.
+  const samples = await mapWithConcurrency(manifest.images, concurrency, async ({file, expected}, index) => {
+    const mimeType = MIME_TYPES_BY_EXTENSION[path.extname(file).toLowerCase()] ?? 'application/octet-stream';
+    const bytes = await readFile(path.join(datasetDir, file));
+    const photoDataUri = `data:${mimeType};base64,${bytes.toString('base64')}`;
+
+    const started = performance.now();
+    let sample: EvalReport['samples'][number];
+    try {
+      const output = await runFingerDetection({photoDataUri}, {backend, skipCache: true});
+      const latencyMs = performance.now() - started;
+      sample = {file, expected: String(expected), predicted: labelFor(output), latencyMs, confidence: output.confidence};
+    } catch (err) {
+      const latencyMs = performance.now() - started;
+      sample = {file, expected: String(expected), predicted: 'error', latencyMs, error: toDetectionError(err).kind};
+    }
+    console.log(`[${index + 1}/${manifest.images.length}] ${file}: expected ${expected}, got ${sample.predicted}`);
+    return sample;
+  });
+
+  const report: EvalReport = {dataset: datasetDir, backend, startedAt, metrics: computeMetrics(samples), samples};
+  const baseName = path.join(values.out!, `eval-${backend}-${startedAt.replace(/[:.]/g, '-')}`);
+  await mkdir(values.out!, {recursive: true});
+  await writeFile(`${baseName}.json`, JSON.stringify(report, null, 2) + '\n');
+  await writeFile(`${baseName}.md`, renderMarkdownReport(report));
+  console.log(`Accuracy ${(report.metrics.accuracy * 100).toFixed(1)}%. Wrote ${baseName}.json and ${baseName}.md`);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,83 @@
+/**
+ * @fileOverview Detects the number of fingers in each of a batch of images.
+ *
+ * - detectFingerBatchFlow - Runs the detection pipeline over every photo, streaming progress.
+ * - DetectFingerBatchInput - The input type for detectFingerBatchFlow.
+ * - DetectFingerBatchOutput - The per-photo results returned by detectFingerBatchFlow.
+ * - DetectFingerBatchProgress - The progress updates streamed by detectFingerBatchFlow.
+ *
+ * Unlike the single-image flow this is not a server action: server actions
+ * cannot stream, so the flow is served over HTTP from
+ * src/app/api/flows/detect-finger-batch and called with `streamFlow` from
+ * `@genkit-ai/next/client`. A photo that fails is reported in its own result
+ * and does not affect the rest of the batch. A batch refused by the rate
+ * limiter fails every item with the same error.
+ */
+
+import {GenkitError} from 'genkit';
+import {ai} from '@/ai/genkit';
+import {mapWithConcurrency} from '@/ai/concurrency';
+import {getAiConfig} from '@/ai/config';
+import {runFingerDetection} from '@/ai/detection';
+import {contextClient, contextSignal} from '@/ai/http/flow-context';
+import {toDetectionError} from '@/ai/errors';
+import {checkRateLimit} from '@/ai/rate-limit/rate-limiter';
+import {
+  DetectFingerBatchInputSchema,
+  DetectFingerBatchOutputSchema,
+  DetectFingerBatchProgressSchema,
+  type DetectFingerBatchItemResult,
+  type DetectFingerBatchOutput,
+} from '@/ai/schemas/detect-finger-batch';
+
+export type {
+  DetectFingerBatchInput,
+  DetectFingerBatchItemResult,
+  DetectFingerBatchOutput,
+  DetectFingerBatchProgress,
+} from '@/ai/schemas/detect-finger-batch';
+
+export const detectFingerBatchFlow = ai.defineFlow(
+  {
+    name: 'detectFingerBatchFlow',
+    inputSchema: DetectFingerBatchInputSchema,
+    outputSchema: DetectFingerBatchOutputSchema,
+    streamSchema: DetectFingerBatchProgressSchema,
+  },
+  async ({items}, {sendChunk, context}): Promise<DetectFingerBatchOutput> => {
+    // Checked here rather than with a schema refinement, which Genkit's
+    // JSON Schema based input validation would ignore.
+    if (new Set(items.map(item => item.id)).size !== items.length) {
+      throw new GenkitError({status: 'INVALID_ARGUMENT', message: 'Batch item ids must be unique.'});
+    }
+    // One request, but every image counts towards the daily quota.
+    const client = contextClient(context);
+    const limited = client ? await checkRateLimit(client, items.length) : null;
+    if (limited) {
+      return {results: items.map(({id}) => ({id, ok: false, error: limited})), succeeded: 0, failed: items.length};
+    }
+    const {concurrency} = getAiConfig().batch;
+    // If the client goes away, the remaining items fail fast as cancelled.
+    const signal = contextSignal(context);
+    let completed = 0;
+
+    const results = await mapWithConcurrency(items, concurrency, async ({id, photoDataUri}) => {
+      let result: DetectFingerBatchItemResult;
+      try {
+        result = {id, ok: true, output: await runFingerDetection({photoDataUri}, {signal})};
+      } catch (err) {
+        const error = toDetectionError(err);
+        if (error.kind !== 'invalid_input') {
+          console.error(`Finger detection failed for batch item ${id}:`, err);
+        }
+        result = {id, ok: false, error};
+      }
+      completed++;
+      sendChunk({id, ok: result.ok, completed, total: items.length});
+      return result;
+    });
+
+    const succeeded = results.filter(result => result.ok).length;
+    return {results, succeeded, failed: results.length - succeeded};
+  }
+);
@@ -0,0 +1,102 @@
+'use server';
+
+/**
+ * @fileOverview Counts fingers from a short sequence of frames, refusing to answer if the count changed.
+ *
+ * - detectFingersOverTime - A function that handles the temporal finger counting process.
+ * - DetectFingersOverTimeInput - The input type for the detectFingersOverTime function.
+ * - DetectFingersOverTimeOutput - The combined result produced by the flow.
+ * - DetectFingersOverTimeResult - The return type for the detectFingersOverTime function.
+ *
+ * A single frame taken at the end of a countdown can catch the hand
+ * mid-motion. Each frame here goes through the usual detection pipeline and
+ * the results are combined by combineFrameDetections (src/ai/temporal.ts).
+ * As a server action it gets no signal when the client goes away, so it
+ * cannot be cancelled; each model call is still bounded by its timeout.
+ */
+
+import {ai} from '@/ai/genkit';
+import {runFingerDetection} from '@/ai/detection';
+import {checkInput, toDetectionError, type DetectionError} from '@/ai/errors';
+import {checkRateLimit} from '@/ai/rate-limit/rate-limiter';
+import {sessionClient} from '@/ai/rate-limit/subject';
+import {DetectionStatusSchema, DetectNumberOfFingersOutputSchema} from '@/ai/schemas/detect-number-of-fingers';
+import {combineFrameDetections} from '@/ai/temporal';
+import {z} from 'genkit';
+
+export type {TemporalDetectionStatus} from '@/ai/temporal';
+
+const MIN_SEQUENCE_FRAMES = 2;
+const MAX_SEQUENCE_FRAMES = 10;
+
+const DetectFingersOverTimeInputSchema = z.object({
+  photoDataUris: z
+    .array(z.string())
+    .min(MIN_SEQUENCE_FRAMES)
+    .max(MAX_SEQUENCE_FRAMES)
+    .describe(
+      'Consecutive photos of a hand, oldest first, each as a data URI that must include a MIME type and use Base64 encoding. Expected format: \'data:<mimetype>;base64,<encoded_data>\'.'
+    ),
+});
+export type DetectFingersOverTimeInput = z.infer<typeof DetectFingersOverTimeInputSchema>;
+
+const TemporalDetectionStatusSchema = z
+  .enum([...DetectionStatusSchema.options, 'unstable'])
+  .describe('The agreed status of the sequence. unstable: the count changed between frames.');
+
+const DetectFingersOverTimeOutputSchema = DetectNumberOfFingersOutputSchema.extend({
+  status: TemporalDetectionStatusSchema,
+  stability: z
+    .number()
+    .min(0)
+    .max(1)
+    .describe('The share of frames that agreed with the reported answer, from 0 to 1.'),
+  frameCounts: z
+    .array(z.number().nullable())
+    .describe('The count read from each frame, oldest first, or null where a frame had none.'),
+});
+export type DetectFingersOverTimeOutput = z.infer<typeof DetectFingersOverTimeOutputSchema>;
+
+export type DetectFingersOverTimeResult =
+  | {ok: true; output: DetectFingersOverTimeOutput}
+  | {ok: false; error: DetectionError};
+
+export async function detectFingersOverTime(input: DetectFingersOverTimeInput): Promise<DetectFingersOverTimeResult> {
+  // Checked before charging, since the cost depends on the input.
+  const invalid = checkInput(DetectFingersOverTimeInputSchema, input);
+  if (invalid) {
+    return {ok: false, error: invalid};
+  }
+  const limited = await checkRateLimit(await sessionClient(), input.photoDataUris.length);
+  if (limited) {
+    return {ok: false, error: limited};
+  }
+  try {
+    return {ok: true, output: await detectFingersOverTimeFlow(input)};
+  } catch (err) {
+    const error = toDetectionError(err);
+    if (error.kind !== 'invalid_input') {
+      console.error('Temporal finger detection failed:', err);
+    }
+    return {ok: false, error};
+  }
+}
+
+const detectFingersOverTimeFlow = ai.defineFlow(
+  {
+    name: 'detectFingersOverTimeFlow',
+    inputSchema: DetectFingersOverTimeInputSchema,
+    outputSchema: DetectFingersOverTimeOutputSchema,
+  },
+  async ({photoDataUris}) => {
+    const settled = await Promise.allSettled(photoDataUris.map(photoDataUri => runFingerDetection({photoDataUri})));
+    const frames = settled.map(outcome => (outcome.status === 'fulfilled' ? outcome.value : null));
+    // A few failed frames only lower the stability, but without most of the
+    // sequence there is nothing to be consistent with.
+    const failed = settled.filter(outcome => outcome.status === 'rejected');
+    if (failed.length * 2 >= settled.length) {
+      throw (failed[0] as PromiseRejectedResult).reason;
+    }
+    return combineFrameDetections(frames);
+  }
+);
@@ -0,0 +1,114 @@
+/**
+ * @fileOverview The Genkit flows behind finger detection, for callers other than the server action.
+ *
+ * - detectNumberOfFingersFlow - Detects fingers in one photo, streaming each pipeline stage it reaches.
+ * - detectNumberOfFingersStreamFlow - The same, but with failures returned as values, for streaming over HTTP.
+ * - runDetectNumberOfFingersFlow - Runs detectNumberOfFingersFlow and returns its output or failure as a value.
+ *
+ * Server actions cannot stream, so the app follows a detection's progress
+ * through detectNumberOfFingersStreamFlow, served from
+ * src/app/api/flows/detect-number-of-fingers. This module is not a
+ * 'use server' module because it exports the flows themselves.
+ *
+ * Requests served over HTTP are rate limited by the `client` that the
+ * route puts in the flow context (see src/ai/rate-limit/subject.ts).
+ * Detections made for a known client are recorded in the audit log (see
+ * src/ai/audit).
+ */
+
+import {ai} from '@/ai/genkit';
+import {recordDetection} from '@/ai/audit/record-detection';
+import {runFingerDetection} from '@/ai/detection';
+import {checkInput, toDetectionError} from '@/ai/errors';
+import {contextClient, contextSignal} from '@/ai/http/flow-context';
+import {checkRateLimit} from '@/ai/rate-limit/rate-limiter';
+import {
+  DetectionProgressSchema,
+  DetectNumberOfFingersInputSchema,
+  DetectNumberOfFingersOutputSchema,
+  DetectNumberOfFingersResultSchema,
+  type DetectionProgress,
+  type DetectNumberOfFingersInput,
+  type DetectNumberOfFingersResult,
+} from '@/ai/schemas/detect-number-of-fingers';
+
+export const detectNumberOfFingersFlow = ai.defineFlow(
+  {
+    name: 'detectNumberOfFingersFlow',
+    inputSchema: DetectNumberOfFingersInputSchema,
+    outputSchema: DetectNumberOfFingersOutputSchema,
+    streamSchema: DetectionProgressSchema,
+  },
+  // The Genkit trace id doubles as the telemetry request id, so the two can be joined.
+  async (input, {sendChunk, context, trace}) =>
+    runFingerDetection(input, {
+      requestId: trace.traceId,
+      onStage: stage => sendChunk({stage}),
+      signal: contextSignal(context),
+    })
+);
+
+export interface RunDetectNumberOfFingersFlowOptions {
+  onProgress?: (progress: DetectionProgress) => void;
+  /** The client the detection is made for; when given, it is recorded in the audit log. */
+  sessionId?: string;
+  /** Aborted when the client goes away, to stop retrying and skip further model calls. */
+  signal?: AbortSignal;
+}
+
+export async function runDetectNumberOfFingersFlow(
+  input: DetectNumberOfFingersInput,
+  {onProgress, sessionId, signal}: RunDetectNumberOfFingersFlowOptions = {}
+): Promise<DetectNumberOfFingersResult> {
+  let result: DetectNumberOfFingersResult;
+  let requestId: string | null = null;
+  const invalid = checkInput(DetectNumberOfFingersInputSchema, input);
+  if (invalid) {
+    result = {ok: false, error: invalid};
+  } else {
+    try {
+      const {result: output, telemetry} = await detectNumberOfFingersFlow.run(input, {
+        onChunk: onProgress,
+        context: {signal},
+      });
+      result = {ok: true, output};
+      requestId = telemetry.traceId;
+    } catch (err) {
+      // Thrown errors lose their type (and, in production, their message) on
+      // the way back to the client, so report failures as a value.
+      const error = toDetectionError(err);
+      if (error.kind !== 'invalid_input') {
+        console.error('Finger detection failed:', err);
+      }
+      result = {ok: false, error};
+      // Genkit tags errors thrown inside a flow with the flow's trace id.
+      const traceId = (err as {traceId?: unknown} | null)?.traceId;
+      requestId = typeof traceId === 'string' ? traceId : null;
+    }
+  }
+  if (sessionId) {
+    await recordDetection(sessionId, input, result, requestId);
+  }
+  return result;
+}
+
+export const detectNumberOfFingersStreamFlow = ai.defineFlow(
+  {
+    name: 'detectNumberOfFingersStreamFlow',
+    inputSchema: DetectNumberOfFingersInputSchema,
+    outputSchema: DetectNumberOfFingersResultSchema,
+    streamSchema: DetectionProgressSchema,
+  },
+  async (input, {sendChunk, context}): Promise<DetectNumberOfFingersResult> => {
+    const client = contextClient(context);
+    const limited = client ? await checkRateLimit(client) : null;
+    if (limited) {
+      return {ok: false, error: limited};
+    }
+    return runDetectNumberOfFingersFlow(input, {
+      onProgress: sendChunk,
+      sessionId: client?.subject,
+      signal: contextSignal(context),
+    });
+  }
+);
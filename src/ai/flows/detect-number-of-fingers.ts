@@ -5,51 +5,45 @@
  *
  * - detectNumberOfFingers - A function that handles the finger detection process.
  * - DetectNumberOfFingersInput - The input type for the detectNumberOfFingers function.
- * - DetectNumberOfFingersOutput - The return type for the detectNumberOfFingers function.
+ * - DetectNumberOfFingersOutput - The detection result produced by the flow.
+ * - DetectNumberOfFingersResult - The return type for the detectNumberOfFingers function.
+ *
+ * The work is done by the detection pipeline (src/ai/detection.ts), which
+ * dispatches to the detector backend named in config, so backends can be
+ * swapped without touching this flow. To follow a detection's progress, use
+ * the streaming flow in ./detect-number-of-fingers-flow.ts instead. Every
+ * detection is recorded in the audit log, if one is configured. Server
+ * actions get no signal when the client goes away, so unlike the HTTP routes
+ * this one cannot be cancelled; each model call is still bounded by its
+ * timeout.
  */
 
-import {ai} from '@/ai/genkit';
-import {z} from 'genkit';
-
-const DetectNumberOfFingersInputSchema = z.object({
-  photoDataUri: z
-    .string()
-    .describe(
-      'A photo of a hand with fingers, as a data URI that must include a MIME type and use Base64 encoding. Expected format: \'data:<mimetype>;base64,<encoded_data>\'.' 
-    ),
-});
-export type DetectNumberOfFingersInput = z.infer<typeof DetectNumberOfFingersInputSchema>;
-
-const DetectNumberOfFingersOutputSchema = z.object({
-  numberOfFingers: z.number().describe('The number of fingers being held up.'),
-});
-export type DetectNumberOfFingersOutput = z.infer<typeof DetectNumberOfFingersOutputSchema>;
-
-export async function detectNumberOfFingers(input: DetectNumberOfFingersInput): Promise<DetectNumberOfFingersOutput> {
-  return detectNumberOfFingersFlow(input);
-}
-
-const prompt = ai.definePrompt({
-  name: 'detectNumberOfFingersPrompt',
-  input: {schema: DetectNumberOfFingersInputSchema},
-  output: {schema: DetectNumberOfFingersOutputSchema},
-  prompt: `You are an expert in image recognition, specializing in identifying the number of fingers being held up in a hand.
-
-  Analyze the image provided and determine the number of fingers that are visibly extended.
-
-  Respond with a single number representing the count of the fingers.
-
-  Image: {{media url=photoDataUri}}`,
-});
-
-const detectNumberOfFingersFlow = ai.defineFlow(
-  {
-    name: 'detectNumberOfFingersFlow',
-    inputSchema: DetectNumberOfFingersInputSchema,
-    outputSchema: DetectNumberOfFingersOutputSchema,
-  },
-  async input => {
-    const {output} = await prompt(input);
-    return output!;
+import {runDetectNumberOfFingersFlow} from '@/ai/flows/detect-number-of-fingers-flow';
+import {checkRateLimit} from '@/ai/rate-limit/rate-limiter';
+import {sessionClient} from '@/ai/rate-limit/subject';
+import type {DetectNumberOfFingersInput, DetectNumberOfFingersResult} from '@/ai/schemas/detect-number-of-fingers';
+
+export type {DetectionError, DetectionErrorKind} from '@/ai/errors';
+export type {
+  BoundingBox,
+  DetectedHand,
+  DetectionProgress,
+  DetectionStage,
+  DetectionStatus,
+  DetectNumberOfFingersInput,
+  DetectNumberOfFingersOutput,
+  DetectNumberOfFingersResult,
+  FingerName,
+  Fingertip,
+  FingerState,
+  Handedness,
+} from '@/ai/schemas/detect-number-of-fingers';
+
+export async function detectNumberOfFingers(input: DetectNumberOfFingersInput): Promise<DetectNumberOfFingersResult> {
+  const client = await sessionClient();
+  const limited = await checkRateLimit(client);
+  if (limited) {
+    return {ok: false, error: limited};
   }
-);
+  return runDetectNumberOfFingersFlow(input, {sessionId: client.subject});
+}
@@ -0,0 +1,160 @@
+'use server';
+
+/**
+ * @fileOverview Recognizes a named static hand gesture, such as a thumbs up or a peace sign.
+ *
+ * - recognizeHandGesture - A function that handles the gesture recognition process.
+ * - RecognizeHandGestureInput - The input type for the recognizeHandGesture function.
+ * - RecognizeHandGestureOutput - The recognition result produced by the flow.
+ * - RecognizeHandGestureResult - The return type for the recognizeHandGesture function.
+ * - HandGesture - The name of a recognizable gesture.
+ */
+
+import {ai} from '@/ai/genkit';
+import {getAiConfig} from '@/ai/config';
+import {checkInput, DetectionFailure, detectionError, toDetectionError, type DetectionError} from '@/ai/errors';
+import {checkRateLimit} from '@/ai/rate-limit/rate-limiter';
+import {sessionClient} from '@/ai/rate-limit/subject';
+import {validatePhotoDataUri} from '@/ai/image/validate-photo';
+import {withRetries} from '@/ai/retry';
+import {z} from 'genkit';
+
+/**
+ * The recognizable gestures. To support a new gesture, add it here and
+ * describe it in GESTURE_DESCRIPTIONS; the prompt and types follow.
+ */
+const HandGestureSchema = z.enum([
+  'thumbs_up',
+  'thumbs_down',
+  'ok',
+  'peace',
+  'rock',
+  'open_palm',
+  'fist',
+  'pointing',
+]);
+export type HandGesture = z.infer<typeof HandGestureSchema>;
+
+/** How each gesture looks, as explained to the model. */
+const GESTURE_DESCRIPTIONS: Record<HandGesture, string> = {
+  thumbs_up: 'a fist with the thumb extended and pointing up',
+  thumbs_down: 'a fist with the thumb extended and pointing down',
+  ok: 'the thumb and index fingertips touching in a circle, other fingers extended',
+  peace: 'the index and middle fingers extended and spread in a V, others folded',
+  rock: 'the index finger and pinky extended, middle and ring fingers folded',
+  open_palm: 'all five fingers extended with the palm facing the camera',
+  fist: 'all fingers, including the thumb, folded into a closed fist',
+  pointing: 'only the index finger extended, pointing in some direction',
+};
+
+const RecognizeHandGestureInputSchema = z.object({
+  photoDataUri: z
+    .string()
+    .describe(
+      'A photo of a hand making a gesture, as a data URI that must include a MIME type and use Base64 encoding. Expected format: \'data:<mimetype>;base64,<encoded_data>\'.'
+    ),
+  candidates: z
+    .array(HandGestureSchema)
+    .min(1)
+    .optional()
+    .describe('Restricts recognition to these gestures. Defaults to all known gestures.'),
+});
+export type RecognizeHandGestureInput = z.infer<typeof RecognizeHandGestureInputSchema>;
+
+const GestureStatusSchema = z
+  .enum(['ok', 'no_hand', 'unknown_gesture', 'low_quality'])
+  .describe(
+    'ok: one of the listed gestures was recognized. no_hand: no hand is visible. unknown_gesture: the hand is not making any of the listed gestures. low_quality: the image is too dark, blurry or small to analyze.'
+  );
+export type GestureStatus = z.infer<typeof GestureStatusSchema>;
+
+const GesturePromptInputSchema = z.object({
+  photoDataUri: z.string(),
+  gestures: z.array(z.object({name: HandGestureSchema, description: z.string()})),
+});
+
+const GesturePromptOutputSchema = z.object({
+  status: GestureStatusSchema,
+  gesture: HandGestureSchema.nullable().describe('The recognized gesture, or null unless the status is ok.'),
+  confidence: z.number().min(0).max(1).describe('How confident the recognition is, from 0 (a guess) to 1 (certain).'),
+});
+
+const RecognizeHandGestureOutputSchema = GesturePromptOutputSchema.extend({
+  attempts: z.number().int().min(1).describe('How many model calls it took to get this result, including retries.'),
+});
+export type RecognizeHandGestureOutput = z.infer<typeof RecognizeHandGestureOutputSchema>;
+
+export type RecognizeHandGestureResult =
+  | {ok: true; output: RecognizeHandGestureOutput}
+  | {ok: false; error: DetectionError};
+
+export async function recognizeHandGesture(input: RecognizeHandGestureInput): Promise<RecognizeHandGestureResult> {
+  // Checked before charging, so a malformed request costs nothing.
+  const invalid = checkInput(RecognizeHandGestureInputSchema, input);
+  if (invalid) {
+    return {ok: false, error: invalid};
+  }
+  const limited = await checkRateLimit(await sessionClient());
+  if (limited) {
+    return {ok: false, error: limited};
+  }
+  try {
+    return {ok: true, output: await recognizeHandGestureFlow(input)};
+  } catch (err) {
+    const error = toDetectionError(err);
+    if (error.kind !== 'invalid_input') {
+      console.error('Hand gesture recognition failed:', err);
+    }
+    return {ok: false, error};
+  }
+}
+
+const prompt = ai.definePrompt({
+  name: 'recognizeHandGesturePrompt',
+  input: {schema: GesturePromptInputSchema},
+  output: {schema: GesturePromptOutputSchema},
+  prompt: `You are an expert in image recognition, specializing in recognizing hand gestures.
+
+  Decide which one of these gestures the hand in the image is making:
+  {{#each gestures}}
+  - {{name}}: {{description}}
+  {{/each}}
+
+  Classify the result with a status and a confidence between 0 and 1:
+  - ok: the hand is clearly making one of the gestures above
+  - no_hand: there is no hand in the image
+  - unknown_gesture: the hand is not making any of the gestures above
+  - low_quality: the image is too dark, blurry or small to analyze
+
+  Set gesture to null unless the status is ok.
+
+  Image: {{media url=photoDataUri}}`,
+});
+
+const recognizeHandGestureFlow = ai.defineFlow(
+  {
+    name: 'recognizeHandGestureFlow',
+    inputSchema: RecognizeHandGestureInputSchema,
+    outputSchema: RecognizeHandGestureOutputSchema,
+  },
+  async ({photoDataUri, candidates = HandGestureSchema.options}) => {
+    await validatePhotoDataUri(photoDataUri);
+    const gestures = candidates.map(name => ({name, description: GESTURE_DESCRIPTIONS[name]}));
+    const {value: output, attempts} = await withRetries(async () => {
+      const {output} = await prompt({photoDataUri, gestures});
+      if (!output) {
+        throw new DetectionFailure(detectionError('malformed_output'));
+      }
+      return output;
+    }, getAiConfig().retry);
+    // Don't let the model answer with a gesture it was not asked about.
+    const recognized = output.status === 'ok' && output.gesture !== null && candidates.includes(output.gesture);
+    const status: GestureStatus = recognized ? 'ok' : output.status === 'ok' ? 'unknown_gesture' : output.status;
+    return {
+      status,
+      gesture: recognized ? output.gesture : null,
+      confidence: output.confidence,
+      attempts,
+    };
+  }
+);
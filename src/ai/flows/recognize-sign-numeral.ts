@@ -0,0 +1,145 @@
+'use server';
+
+/**
+ * @fileOverview Reads an American Sign Language (ASL) numeral, 0 to 10, from one or more frames.
+ *
+ * - recognizeSignNumeral - A function that handles the sign numeral recognition process.
+ * - RecognizeSignNumeralInput - The input type for the recognizeSignNumeral function.
+ * - RecognizeSignNumeralOutput - The recognition result produced by the flow.
+ * - RecognizeSignNumeralResult - The return type for the recognizeSignNumeral function.
+ *
+ * Unlike finger counting, ASL numerals 6 to 9 are shown by touching a
+ * specific finger to the thumb, and 10 is a shaken thumbs-up, so it can only
+ * be read reliably from a short sequence of frames.
+ */
+
+import {ai} from '@/ai/genkit';
+import {getAiConfig} from '@/ai/config';
+import {checkInput, DetectionFailure, detectionError, toDetectionError, type DetectionError} from '@/ai/errors';
+import {checkRateLimit} from '@/ai/rate-limit/rate-limiter';
+import {sessionClient} from '@/ai/rate-limit/subject';
+import {validatePhotoDataUri} from '@/ai/image/validate-photo';
+import {withRetries} from '@/ai/retry';
+import {z} from 'genkit';
+
+const MAX_SIGN_FRAMES = 8;
+
+const RecognizeSignNumeralInputSchema = z.object({
+  photoDataUris: z
+    .array(z.string())
+    .min(1)
+    .max(MAX_SIGN_FRAMES)
+    .describe(
+      'One or more photos of a hand signing a number, oldest first, each as a data URI that must include a MIME type and use Base64 encoding. Expected format: \'data:<mimetype>;base64,<encoded_data>\'.'
+    ),
+});
+export type RecognizeSignNumeralInput = z.infer<typeof RecognizeSignNumeralInputSchema>;
+
+const SignNumeralStatusSchema = z
+  .enum(['ok', 'no_hand', 'not_a_numeral', 'ambiguous', 'low_quality'])
+  .describe(
+    'ok: a numeral was read reliably. no_hand: no hand is visible. not_a_numeral: the hand is not signing an ASL numeral. ambiguous: the sign could reasonably be read as more than one numeral. low_quality: the frames are too dark, blurry or small to analyze.'
+  );
+export type SignNumeralStatus = z.infer<typeof SignNumeralStatusSchema>;
+
+const SignNumeralPromptOutputSchema = z.object({
+  status: SignNumeralStatusSchema,
+  numeral: z
+    .number()
+    .int()
+    .min(0)
+    .max(10)
+    .nullable()
+    .describe('The ASL numeral being signed, or null unless the status is ok.'),
+  confidence: z.number().min(0).max(1).describe('How confident the reading is, from 0 (a guess) to 1 (certain).'),
+});
+
+const RecognizeSignNumeralOutputSchema = SignNumeralPromptOutputSchema.extend({
+  attempts: z.number().int().min(1).describe('How many model calls it took to get this result, including retries.'),
+});
+export type RecognizeSignNumeralOutput = z.infer<typeof RecognizeSignNumeralOutputSchema>;
+
+export type RecognizeSignNumeralResult =
+  | {ok: true; output: RecognizeSignNumeralOutput}
+  | {ok: false; error: DetectionError};
+
+export async function recognizeSignNumeral(input: RecognizeSignNumeralInput): Promise<RecognizeSignNumeralResult> {
+  // Checked before charging, since the cost depends on the input.
+  const invalid = checkInput(RecognizeSignNumeralInputSchema, input);
+  if (invalid) {
+    return {ok: false, error: invalid};
+  }
+  const limited = await checkRateLimit(await sessionClient(), input.photoDataUris.length);
+  if (limited) {
+    return {ok: false, error: limited};
+  }
+  try {
+    return {ok: true, output: await recognizeSignNumeralFlow(input)};
+  } catch (err) {
+    const error = toDetectionError(err);
+    if (error.kind !== 'invalid_input') {
+      console.error('Sign numeral recognition failed:', err);
+    }
+    return {ok: false, error};
+  }
+}
+
+const prompt = ai.definePrompt({
+  name: 'recognizeSignNumeralPrompt',
+  input: {schema: RecognizeSignNumeralInputSchema},
+  output: {schema: SignNumeralPromptOutputSchema},
+  prompt: `You are an expert in American Sign Language (ASL), specializing in reading the numerals 0 to 10.
+
+  The frames below were taken from a camera a fraction of a second apart, oldest first. They are not mirrored. Read the numeral being signed, using the ASL handshapes rather than simply counting raised fingers:
+  - 0: all fingers curved to touch the thumb, forming an O
+  - 1: index finger up
+  - 2: index and middle fingers up, spread
+  - 3: thumb, index and middle fingers up
+  - 4: four fingers up, thumb folded across the palm
+  - 5: all five fingers spread
+  - 6: pinky touches the thumb; index, middle and ring fingers up
+  - 7: ring finger touches the thumb; index, middle and pinky up
+  - 8: middle finger touches the thumb; index, ring and pinky up
+  - 9: index finger touches the thumb; middle, ring and pinky up
+  - 10: a thumbs-up (fist with the thumb pointing up) that is shaken or twisted side to side
+
+  Only answer 10 when the frames show the thumbs-up moving; a still thumbs-up is ambiguous.
+
+  Classify the result with a status and a confidence between 0 and 1:
+  - ok: the numeral was read reliably
+  - no_hand: there is no hand in the frames
+  - not_a_numeral: the hand is not signing an ASL numeral
+  - ambiguous: the sign could reasonably be read as more than one numeral
+  - low_quality: the frames are too dark, blurry or small to analyze
+
+  Set numeral to null unless the status is ok.
+
+  {{#each photoDataUris}}Frame {{@index}}: {{media url=this}}
+  {{/each}}`,
+});
+
+const recognizeSignNumeralFlow = ai.defineFlow(
+  {
+    name: 'recognizeSignNumeralFlow',
+    inputSchema: RecognizeSignNumeralInputSchema,
+    outputSchema: RecognizeSignNumeralOutputSchema,
+  },
+  async input => {
+    await Promise.all(input.photoDataUris.map(validatePhotoDataUri));
+    const {value: output, attempts} = await withRetries(async () => {
+      const {output} = await prompt(input);
+      if (!output) {
+        throw new DetectionFailure(detectionError('malformed_output'));
+      }
+      return output;
+    }, getAiConfig().retry);
+    // An "ok" without a numeral is the model hedging; treat it as unclear.
+    const status: SignNumeralStatus = output.status === 'ok' && output.numeral === null ? 'ambiguous' : output.status;
+    return {
+      status,
+      numeral: status === 'ok' ? output.numeral : null,
+      confidence: output.confidence,
+      attempts,
+    };
+  }
+);
@@ -1,7 +1,22 @@
 import {genkit} from 'genkit';
 import {googleAI} from '@genkit-ai/googleai';
+import {getAiConfig} from '@/ai/config';
+import {mockModel} from '@/ai/plugins/mock-model';
+
+// Every plugin in MODEL_PLUGINS (src/ai/model-fallback.ts) must be loadable
+// here, or config would accept models that can never be found.
+const {model} = getAiConfig();
+
+export const PROMPT_DIR = 'src/ai/prompts';
+const models = [model.name, ...model.fallbacks];
 
 export const ai = genkit({
-  plugins: [googleAI()],
-  model: 'googleai/gemini-2.0-flash',
+  plugins: [
+    // The Google AI plugin refuses to initialize without an API key, so only
+    // load it when it is actually needed; offline setups use the mock model.
+    ...(models.some(name => name.startsWith('googleai/')) ? [googleAI()] : []),
+    mockModel({fixturesPath: model.mockFixturesPath}),
+  ],
+  model: model.name,
+  promptDir: PROMPT_DIR,
 });
@@ -0,0 +1,38 @@
+import {GenkitError, type ActionContext} from 'genkit';
+import type {NextRequest} from 'next/server';
+import {requestClient, type RateLimitClient} from '@/ai/rate-limit/subject';
+
+/**
+ * @fileOverview What the routes in src/app/api/flows put in a flow's Genkit context.
+ *
+ * - requestFlowContext - Builds the context for a request, refusing clients that cannot be told apart.
+ * - contextClient - The client the request is charged to, if the flow was called from a route.
+ * - contextSignal - The request's abort signal, which fires when the client goes away.
+ *
+ * Flows can also be called directly (e.g. from the Genkit developer UI), in
+ * which case neither is set.
+ */
+
+/**
+ * Flows are only rate limited when the context names a client, so a request
+ * that cannot be charged to anyone is refused rather than run unlimited.
+ */
+export function requestFlowContext(request: NextRequest, headers: Record<string, string>): ActionContext {
+  const client = requestClient(headers);
+  if (!client) {
+    throw new GenkitError({
+      status: 'UNAUTHENTICATED',
+      message: 'Open the app to start a session, or call POST /api/detect with an API key.',
+    });
+  }
+  return {client, signal: request.signal};
+}
+
+export function contextClient(context: ActionContext | undefined): RateLimitClient | undefined {
+  const client = context?.client as RateLimitClient | undefined;
+  return typeof client?.subject === 'string' ? client : undefined;
+}
+
+export function contextSignal(context: ActionContext | undefined): AbortSignal | undefined {
+  return context?.signal instanceof AbortSignal ? context.signal : undefined;
+}
@@ -0,0 +1,58 @@
+import type {DetectionError, DetectionErrorKind} from '@/ai/errors';
+import type {DetectNumberOfFingersOutput} from '@/ai/schemas/detect-number-of-fingers';
+
+/**
+ * @fileOverview JSON responses for the public HTTP endpoints.
+ *
+ * - ApiErrorKind - Failures of the request itself, before any detection runs.
+ * - detectionResponse - Responds with a detection output.
+ * - detectionErrorResponse - Responds with a detection failure and its HTTP status.
+ * - apiErrorResponse - Responds with a request failure and its HTTP status.
+ *
+ * Every body has the shape `{"ok": true, "output": ...}` or
+ * `{"ok": false, "error": {"kind", "message", "retryable", ...}}`, the same
+ * as the server actions return, so clients handle both the same way.
+ */
+
+export type ApiErrorKind = 'unauthenticated' | 'forbidden' | 'bad_request' | 'unsupported_media_type';
+
+const API_ERROR_STATUSES: Record<ApiErrorKind, number> = {
+  unauthenticated: 401,
+  forbidden: 403,
+  bad_request: 400,
+  unsupported_media_type: 415,
+};
+
+const DETECTION_ERROR_STATUSES: Record<DetectionErrorKind, number> = {
+  invalid_input: 400,
+  rate_limited: 429,
+  quota_exceeded: 429,
+  safety_blocked: 422,
+  malformed_output: 502,
+  model_unavailable: 503,
+  timeout: 504,
+  cancelled: 503,
+};
+
+export function detectionResponse(output: DetectNumberOfFingersOutput): Response {
+  return Response.json({ok: true, output});
+}
+
+export function detectionErrorResponse(error: DetectionError): Response {
+  let status = DETECTION_ERROR_STATUSES[error.kind];
+  if (error.kind === 'invalid_input') {
+    // Spell out the two photo problems HTTP has dedicated statuses for.
+    status = error.code === 'too_large' ? 413 : error.code === 'unsupported_mime_type' ? 415 : status;
+  }
+  const headers = new Headers();
+  if (error.kind === 'rate_limited' && error.retryAfterMs !== undefined) {
+    headers.set('Retry-After', String(Math.ceil(error.retryAfterMs / 1000)));
+  } else if (error.kind === 'quota_exceeded') {
+    headers.set('Retry-After', String(Math.max(0, Math.ceil((error.resetsAt - Date.now()) / 1000))));
+  }
+  return Response.json({ok: false, error}, {status, headers});
+}
+
+export function apiErrorResponse(kind: ApiErrorKind, message: string, headers?: HeadersInit): Response {
+  return Response.json({ok: false, error: {kind, message, retryable: false}}, {status: API_ERROR_STATUSES[kind], headers});
+}
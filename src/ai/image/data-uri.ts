@@ -0,0 +1,20 @@
+/**
+ * @fileOverview Helpers for working with base64 image data URIs on the server.
+ *
+ * - parseDataUri - Splits a data URI into its MIME type and decoded bytes.
+ */
+
+const DATA_URI_PATTERN = /^data:([\w.+-]+\/[\w.+-]+);base64,([A-Za-z0-9+/]*={0,2})$/;
+
+export interface ParsedDataUri {
+  mimeType: string;
+  bytes: Buffer;
+}
+
+export function parseDataUri(dataUri: string): ParsedDataUri {
+  const match = DATA_URI_PATTERN.exec(dataUri);
+  if (!match) {
+    throw new Error("Expected a base64 data URI of the form 'data:<mimetype>;base64,<encoded_data>'.");
+  }
+  return {mimeType: match[1].toLowerCase(), bytes: Buffer.from(match[2], 'base64')};
+}
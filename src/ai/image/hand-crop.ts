@@ -0,0 +1,158 @@
+import sharp from 'sharp';
+import type {FingerDetection} from '@/ai/detectors/types';
+import {findRegions, loadSkinMask, type SkinMask, type SkinRegion} from '@/ai/image/skin-regions';
+import type {ValidatedPhoto} from '@/ai/image/validate-photo';
+import type {BoundingBox} from '@/ai/schemas/detect-number-of-fingers';
+
+/**
+ * @fileOverview Crops a photo to the likely hand before it is sent to a model.
+ *
+ * - findHand - Finds the likely hand with skin-tone and outline heuristics.
+ * - cropToHand - Crops the photo to the hand, then normalizes and resizes it.
+ * - toFrameCoordinates - Maps a detection made on a crop back onto the full frame.
+ * - toPixelRegion - Converts a normalized region to whole pixels of a photo.
+ * - HandCrop - The prepared image and the part of the frame it shows.
+ */
+
+export interface HandCropOptions {
+  /** Longest side of the prepared image, in pixels. */
+  targetSize: number;
+}
+
+export interface HandCrop {
+  /** Data URI of the image to send: a JPEG of the hand, or the original photo when none was found. */
+  photoDataUri: string;
+  /** The part of the frame the image shows, normalized to the frame size; null for the full frame. */
+  region: BoundingBox | null;
+}
+
+/** Regions smaller than this fraction of the frame are treated as noise, not a hand. */
+const MIN_HAND_AREA_FRACTION = 0.01;
+/**
+ * Raised fingers give a hand a ragged outline: its squared perimeter is
+ * several times 4π times its area, where a face or a bare arm comes out close
+ * to 1. Regions smoother than this are not taken for a hand.
+ */
+const MIN_HAND_OUTLINE_RATIO = 1.5;
+/** A region spanning nearly the whole frame is skin-toned background, and cropping to it gains nothing. */
+const MAX_REGION_SPAN = 0.9;
+
+/**
+ * The likely hand in a photo, with a margin of `padding` times its longer
+ * side, normalized to the photo size; null if no hand was found.
+ */
+export async function findHand(photo: ValidatedPhoto, padding: number): Promise<BoundingBox | null> {
+  const mask = await loadSkinMask(photo.bytes);
+  const hand = findHandRegion(mask);
+  return hand && padRegion(hand, mask, padding);
+}
+
+/**
+ * Prepares a photo for the model. When a hand was found (see findHand) the
+ * photo is cropped to it, so the hand fills more of what the model sees, its
+ * exposure is normalized and it is scaled down to `targetSize`. Otherwise the
+ * photo is passed through byte for byte, so that it is still the photo the
+ * caller sent.
+ */
+export async function cropToHand(
+  photo: ValidatedPhoto,
+  region: BoundingBox | null,
+  {targetSize}: HandCropOptions
+): Promise<HandCrop> {
+  if (!region) {
+    return {photoDataUri: `data:${photo.mimeType};base64,${photo.bytes.toString('base64')}`, region: null};
+  }
+  const bytes = await sharp(photo.bytes)
+    .extract(toPixelRegion(region, photo))
+    .normalise()
+    .resize({width: targetSize, height: targetSize, fit: 'inside', withoutEnlargement: true})
+    .jpeg({quality: 85})
+    .toBuffer();
+  return {photoDataUri: `data:image/jpeg;base64,${bytes.toString('base64')}`, region};
+}
+
+/** A normalized region as whole pixels of the photo, at least one pixel wide and high. */
+export function toPixelRegion(
+  region: BoundingBox,
+  {width, height}: {width: number; height: number}
+): {left: number; top: number; width: number; height: number} {
+  const left = Math.floor(region.x * width);
+  const top = Math.floor(region.y * height);
+  return {
+    left,
+    top,
+    width: Math.max(1, Math.min(width - left, Math.ceil(region.width * width))),
+    height: Math.max(1, Math.min(height - top, Math.ceil(region.height * height))),
+  };
+}
+
+/** The largest region that is big enough and ragged enough to be a hand, if any. */
+function findHandRegion(mask: SkinMask): SkinRegion | null {
+  const candidates = findRegions(mask, mask.width * mask.height * MIN_HAND_AREA_FRACTION);
+  return (
+    candidates.find(
+      region =>
+        (region.right - region.left + 1) / mask.width < MAX_REGION_SPAN &&
+        (region.bottom - region.top + 1) / mask.height < MAX_REGION_SPAN &&
+        outlineRatio(region, mask.width, mask.height) >= MIN_HAND_OUTLINE_RATIO
+    ) ?? null
+  );
+}
+
+/** Squared perimeter over 4π times the area: about 1 for a disc, larger for jagged shapes. */
+function outlineRatio(region: SkinRegion, width: number, height: number): number {
+  const {pixels} = region;
+  let perimeter = 0;
+  for (let y = region.top; y <= region.bottom; y++) {
+    for (let x = region.left; x <= region.right; x++) {
+      const index = y * width + x;
+      const onEdge =
+        x === 0 ||
+        y === 0 ||
+        x === width - 1 ||
+        y === height - 1 ||
+        !pixels[index - 1] ||
+        !pixels[index + 1] ||
+        !pixels[index - width] ||
+        !pixels[index + width];
+      if (pixels[index] && onEdge) {
+        perimeter++;
+      }
+    }
+  }
+  return (perimeter * perimeter) / (4 * Math.PI * region.area);
+}
+
+/** The region's bounding box with padding, clamped to the frame and normalized to its size. */
+function padRegion(region: SkinRegion, mask: SkinMask, padding: number): BoundingBox {
+  const margin = Math.max(region.right - region.left + 1, region.bottom - region.top + 1) * padding;
+  const left = Math.max(0, region.left - margin);
+  const top = Math.max(0, region.top - margin);
+  const right = Math.min(mask.width, region.right + 1 + margin);
+  const bottom = Math.min(mask.height, region.bottom + 1 + margin);
+  return {
+    x: left / mask.width,
+    y: top / mask.height,
+    width: (right - left) / mask.width,
+    height: (bottom - top) / mask.height,
+  };
+}
+
+/** Rewrites the boxes and fingertips of a detection made on `region` in full-frame coordinates. */
+export function toFrameCoordinates(detection: FingerDetection, region: BoundingBox): FingerDetection {
+  const toFrameX = (x: number) => region.x + x * region.width;
+  const toFrameY = (y: number) => region.y + y * region.height;
+  return {
+    ...detection,
+    hands: detection.hands.map(hand => ({
+      ...hand,
+      boundingBox: {
+        x: toFrameX(hand.boundingBox.x),
+        y: toFrameY(hand.boundingBox.y),
+        width: hand.boundingBox.width * region.width,
+        height: hand.boundingBox.height * region.height,
+      },
+      fingertips: hand.fingertips.map(tip => ({...tip, x: toFrameX(tip.x), y: toFrameY(tip.y)})),
+    })),
+  };
+}
@@ -0,0 +1,60 @@
+import {createHash} from 'node:crypto';
+import sharp from 'sharp';
+
+/**
+ * @fileOverview Image fingerprints.
+ *
+ * - hashImage - Exact hash of the image bytes.
+ * - perceptualHash - A 256-bit difference hash that barely changes between near-identical frames.
+ * - hammingDistance - The number of differing bits between two perceptual hashes.
+ */
+
+/** Hex SHA-256 of the raw image bytes; identifies an exact image. */
+export function hashImage(bytes: Buffer): string {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+/** Rows and columns of the hash grid; 16x16 tells finger-sized differences apart. */
+const HASH_SIZE = 16;
+
+/**
+ * dHash: shrink to 17x16 greyscale and record, for each pixel, whether it is
+ * brighter than its right-hand neighbour. Robust to re-encoding, small
+ * exposure changes and sensor noise. With `region`, in pixels, only that
+ * part of the image is hashed. Returned as 64 hex characters.
+ */
+export async function perceptualHash(bytes: Buffer, region?: sharp.Region): Promise<string> {
+  let image = sharp(bytes);
+  if (region) {
+    image = image.extract(region);
+  }
+  const pixels = await image
+    .greyscale()
+    .resize(HASH_SIZE + 1, HASH_SIZE, {fit: 'fill'})
+    .raw()
+    .toBuffer();
+  const hash = new Uint8Array((HASH_SIZE * HASH_SIZE) / 8);
+  for (let y = 0; y < HASH_SIZE; y++) {
+    for (let x = 0; x < HASH_SIZE; x++) {
+      const bit = y * HASH_SIZE + x;
+      if (pixels[y * (HASH_SIZE + 1) + x] > pixels[y * (HASH_SIZE + 1) + x + 1]) {
+        hash[bit >> 3] |= 1 << (bit & 7);
+      }
+    }
+  }
+  return Buffer.from(hash).toString('hex');
+}
+
+export function hammingDistance(a: string, b: string): number {
+  const left = Buffer.from(a, 'hex');
+  const right = Buffer.from(b, 'hex');
+  let distance = 0;
+  for (let i = 0; i < left.length; i++) {
+    let bits = left[i] ^ right[i];
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+}
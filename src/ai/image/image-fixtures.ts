@@ -0,0 +1,76 @@
+import {readFile} from 'node:fs/promises';
+import path from 'node:path';
+import {z} from 'genkit';
+import {hashImage} from '@/ai/image/hash';
+
+/**
+ * @fileOverview Loads JSON files that map images to canned results.
+ *
+ * - loadImageFixtures - Reads and validates a fixtures file, indexing its entries by image hash.
+ * - ImageFixtures - A loaded fixtures file.
+ *
+ * A fixtures file looks like:
+ *
+ *   {
+ *     "default": <result>,
+ *     "images": {
+ *       "hands/two-fingers.jpg": <result>,
+ *       "sha256:9f86d08...": <result>
+ *     }
+ *   }
+ *
+ * Keys starting with `sha256:` are hex hashes of the image bytes. Any other
+ * key is an image file path relative to the fixtures file, which is read and
+ * hashed when the fixtures are loaded. Images with no entry get `default`.
+ */
+
+const SHA256_PREFIX = 'sha256:';
+
+export interface ImageFixtures<T> {
+  default?: T;
+  byHash: Map<string, T>;
+}
+
+// Loaded fixtures, per result schema and then per resolved file path.
+const cache = new WeakMap<z.ZodTypeAny, Map<string, Promise<ImageFixtures<unknown>>>>();
+
+export function loadImageFixtures<T extends z.ZodTypeAny>(
+  fixturesPath: string,
+  resultSchema: T
+): Promise<ImageFixtures<z.infer<T>>> {
+  let bySchema = cache.get(resultSchema);
+  if (!bySchema) {
+    bySchema = new Map();
+    cache.set(resultSchema, bySchema);
+  }
+  const resolvedPath = path.resolve(fixturesPath);
+  let fixtures = bySchema.get(resolvedPath);
+  if (!fixtures) {
+    fixtures = readImageFixtures(resolvedPath, resultSchema);
+    // Let a missing or broken file be fixed without restarting the server.
+    fixtures.catch(() => bySchema.delete(resolvedPath));
+    bySchema.set(resolvedPath, fixtures);
+  }
+  return fixtures as Promise<ImageFixtures<z.infer<T>>>;
+}
+
+async function readImageFixtures<T extends z.ZodTypeAny>(
+  fixturesPath: string,
+  resultSchema: T
+): Promise<ImageFixtures<z.infer<T>>> {
+  const fileSchema = z.object({
+    default: resultSchema.optional(),
+    images: z.record(resultSchema).default({}),
+  });
+  const file = fileSchema.parse(JSON.parse(await readFile(fixturesPath, 'utf8')));
+  const baseDir = path.dirname(fixturesPath);
+
+  const byHash = new Map<string, z.infer<T>>();
+  for (const [key, result] of Object.entries(file.images)) {
+    const hash = key.startsWith(SHA256_PREFIX)
+      ? key.slice(SHA256_PREFIX.length).toLowerCase()
+      : hashImage(await readFile(path.resolve(baseDir, key)));
+    byHash.set(hash, result);
+  }
+  return {default: file.default, byHash};
+}
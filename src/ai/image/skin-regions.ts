@@ -0,0 +1,124 @@
+import sharp from 'sharp';
+
+/**
+ * @fileOverview Simple skin-tone segmentation used to locate hands without a model.
+ *
+ * - loadSkinMask - Decodes an image, downscales it and marks skin-coloured pixels.
+ * - findLargestRegion - Finds the largest connected skin region in a mask.
+ * - findRegions - Lists the connected skin regions in a mask, largest first.
+ */
+
+/** A binary mask at analysis resolution; `data[y * width + x]` is 1 for skin. */
+export interface SkinMask {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/** A connected region of a mask, in mask pixel coordinates. */
+export interface SkinRegion {
+  /** 1 for pixels that belong to this region, 0 otherwise. */
+  pixels: Uint8Array;
+  area: number;
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/** Width the image is reduced to before analysis; plenty for locating a hand. */
+const ANALYSIS_WIDTH = 160;
+
+export async function loadSkinMask(image: Buffer): Promise<SkinMask> {
+  const {data, info} = await sharp(image)
+    .resize({width: ANALYSIS_WIDTH, withoutEnlargement: true})
+    .removeAlpha()
+    .raw()
+    .toBuffer({resolveWithObject: true});
+
+  const mask = new Uint8Array(info.width * info.height);
+  for (let i = 0; i < mask.length; i++) {
+    const offset = i * info.channels;
+    mask[i] = isSkinTone(data[offset], data[offset + 1], data[offset + 2]) ? 1 : 0;
+  }
+  return {width: info.width, height: info.height, data: mask};
+}
+
+/**
+ * Classic YCbCr chroma thresholds. Chroma is fairly stable across skin tones
+ * and lighting, which makes this a reasonable heuristic with no training data.
+ */
+function isSkinTone(r: number, g: number, b: number): boolean {
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+}
+
+export function findLargestRegion(mask: SkinMask): SkinRegion | null {
+  const {labels, regions} = labelRegions(mask);
+  const largest = regions.reduce<LabelledRegion | null>(
+    (best, region) => (!best || region.area > best.area ? region : best),
+    null
+  );
+  return largest && withPixels(labels, largest);
+}
+
+/** Every connected skin region of at least `minArea` pixels, largest first. */
+export function findRegions(mask: SkinMask, minArea = 1): SkinRegion[] {
+  const {labels, regions} = labelRegions(mask);
+  return regions
+    .filter(region => region.area >= minArea)
+    .sort((a, b) => b.area - a.area)
+    .map(region => withPixels(labels, region));
+}
+
+type LabelledRegion = Omit<SkinRegion, 'pixels'> & {label: number};
+
+/** Flood-fills the mask, giving each 4-connected skin region its own label. */
+function labelRegions(mask: SkinMask): {labels: Int32Array; regions: LabelledRegion[]} {
+  const {width, height, data} = mask;
+  const labels = new Int32Array(width * height);
+  const stack: number[] = [];
+  const regions: LabelledRegion[] = [];
+  let label = 0;
+
+  for (let start = 0; start < data.length; start++) {
+    if (!data[start] || labels[start]) {
+      continue;
+    }
+    label++;
+    labels[start] = label;
+    stack.push(start);
+    const region = {label, area: 0, left: width, top: height, right: 0, bottom: 0};
+
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const x = index % width;
+      const y = (index - x) / width;
+      region.area++;
+      region.left = Math.min(region.left, x);
+      region.right = Math.max(region.right, x);
+      region.top = Math.min(region.top, y);
+      region.bottom = Math.max(region.bottom, y);
+
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        y > 0 ? index - width : -1,
+        y < height - 1 ? index + width : -1,
+      ];
+      for (const neighbour of neighbours) {
+        if (neighbour >= 0 && data[neighbour] && !labels[neighbour]) {
+          labels[neighbour] = label;
+          stack.push(neighbour);
+        }
+      }
+    }
+    regions.push(region);
+  }
+  return {labels, regions};
+}
+
+function withPixels(labels: Int32Array, {label, ...region}: LabelledRegion): SkinRegion {
+  return {...region, pixels: Uint8Array.from(labels, value => (value === label ? 1 : 0))};
+}
@@ -0,0 +1,120 @@
+import sharp from 'sharp';
+
+/**
+ * @fileOverview Checks a photo data URI before it is sent to any detector.
+ *
+ * - validatePhotoDataUri - Validates the URI, MIME type, size and image header.
+ * - PhotoValidationError - Thrown when a photo fails validation.
+ * - PhotoValidationCode - Identifies which check failed.
+ */
+
+export const ALLOWED_PHOTO_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'] as const;
+export const MAX_PHOTO_BYTES = 4 * 1024 * 1024;
+export const MIN_PHOTO_DIMENSION = 64;
+export const MAX_PHOTO_DIMENSION = 4096;
+
+/** The sharp format name for each allowed MIME type. */
+const FORMAT_BY_MIME_TYPE: Record<(typeof ALLOWED_PHOTO_MIME_TYPES)[number], string> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+const DATA_URI_PATTERN = /^data:([^;,]+);base64,([A-Za-z0-9+/]*={0,2})$/;
+
+export const PHOTO_VALIDATION_CODES = [
+  'malformed_data_uri',
+  'unsupported_mime_type',
+  'too_large',
+  'undecodable',
+  'mime_type_mismatch',
+  'too_small',
+  'too_big',
+] as const;
+export type PhotoValidationCode = (typeof PHOTO_VALIDATION_CODES)[number];
+
+export class PhotoValidationError extends Error {
+  constructor(
+    readonly code: PhotoValidationCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PhotoValidationError';
+  }
+}
+
+export interface ValidatedPhoto {
+  mimeType: string;
+  bytes: Buffer;
+  width: number;
+  height: number;
+}
+
+export async function validatePhotoDataUri(photoDataUri: string): Promise<ValidatedPhoto> {
+  // Reject hugely oversized input before running a regex over it: base64
+  // needs 4 characters for every 3 bytes.
+  if (photoDataUri.length > Math.ceil(MAX_PHOTO_BYTES / 3) * 4 + 64) {
+    throw tooLarge();
+  }
+
+  const match = DATA_URI_PATTERN.exec(photoDataUri);
+  if (!match || match[2].length % 4 !== 0) {
+    throw new PhotoValidationError(
+      'malformed_data_uri',
+      "The photo is not a valid base64 data URI of the form 'data:<mimetype>;base64,<encoded_data>'."
+    );
+  }
+
+  const mimeType = match[1].toLowerCase();
+  if (!isAllowedMimeType(mimeType)) {
+    throw new PhotoValidationError(
+      'unsupported_mime_type',
+      `Photos of type ${mimeType} are not supported. Use ${ALLOWED_PHOTO_MIME_TYPES.join(', ')}.`
+    );
+  }
+
+  const bytes = Buffer.from(match[2], 'base64');
+  if (bytes.length > MAX_PHOTO_BYTES) {
+    throw tooLarge();
+  }
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(bytes).metadata();
+  } catch {
+    throw new PhotoValidationError('undecodable', 'The photo could not be read as an image.');
+  }
+  if (metadata.format !== FORMAT_BY_MIME_TYPE[mimeType]) {
+    throw new PhotoValidationError(
+      'mime_type_mismatch',
+      `The photo is labelled ${mimeType} but contains ${metadata.format ?? 'unknown'} image data.`
+    );
+  }
+
+  const {width = 0, height = 0} = metadata;
+  if (width < MIN_PHOTO_DIMENSION || height < MIN_PHOTO_DIMENSION) {
+    throw new PhotoValidationError(
+      'too_small',
+      `The photo is ${width}x${height} pixels; it must be at least ${MIN_PHOTO_DIMENSION}x${MIN_PHOTO_DIMENSION}.`
+    );
+  }
+  if (width > MAX_PHOTO_DIMENSION || height > MAX_PHOTO_DIMENSION) {
+    throw new PhotoValidationError(
+      'too_big',
+      `The photo is ${width}x${height} pixels; it must be at most ${MAX_PHOTO_DIMENSION}x${MAX_PHOTO_DIMENSION}.`
+    );
+  }
+
+  return {mimeType, bytes, width, height};
+}
+
+function isAllowedMimeType(mimeType: string): mimeType is (typeof ALLOWED_PHOTO_MIME_TYPES)[number] {
+  return (ALLOWED_PHOTO_MIME_TYPES as readonly string[]).includes(mimeType);
+}
+
+function tooLarge(): PhotoValidationError {
+  return new PhotoValidationError(
+    'too_large',
+    `The photo is larger than the ${MAX_PHOTO_BYTES / (1024 * 1024)} MB limit.`
+  );
+}
@@ -0,0 +1,104 @@
+import {GenkitError, z} from 'genkit';
+import {toDetectionError} from '@/ai/errors';
+
+/**
+ * @fileOverview Falling back to other models when the preferred one is failing.
+ *
+ * Config names a primary model and an ordered list of fallbacks, e.g.
+ * `googleai/gemini-2.0-flash` then `googleai/gemini-1.5-flash,googleai/gemini-1.5-pro`.
+ * A model that keeps failing with a retryable error (an outage or a rate
+ * limit) is skipped for the next one. A model that is not found, such as a
+ * retired one, is skipped straight away, since retrying it cannot help.
+ *
+ * - MODEL_PLUGINS - The Genkit plugins src/ai/genkit.ts can load models from.
+ * - ModelNameSchema - Validates a Genkit model name such as `googleai/gemini-2.0-flash`.
+ * - ModelListSchema - Parses a comma-separated list of distinct model names.
+ * - isModelNotFound - Whether a model call failed because the model does not exist.
+ * - withModelFallback - Runs an operation against each model in turn until one succeeds.
+ */
+
+export const MODEL_PLUGINS = ['googleai', 'mock'] as const;
+
+const MODEL_NAME_PATTERN = /^[a-z0-9-]+\/[A-Za-z0-9._:-]+$/;
+
+/** Why `model` cannot be used, or null if it can. */
+function modelNameProblem(model: string): string | null {
+  if (!MODEL_NAME_PATTERN.test(model)) {
+    return `Invalid model name "${model}"; expected e.g. "googleai/gemini-1.5-flash".`;
+  }
+  const plugin = model.slice(0, model.indexOf('/'));
+  if (!(MODEL_PLUGINS as readonly string[]).includes(plugin)) {
+    return `Model "${model}" needs the "${plugin}" plugin, which is not loaded; use one of: ${MODEL_PLUGINS.join(', ')}.`;
+  }
+  return null;
+}
+
+export const ModelNameSchema = z
+  .string()
+  .trim()
+  .superRefine((model, ctx) => {
+    const problem = modelNameProblem(model);
+    if (problem) {
+      ctx.addIssue({code: z.ZodIssueCode.custom, message: problem});
+    }
+  });
+
+export const ModelListSchema = z.string().transform((value, ctx): string[] => {
+  const models = value
+    .split(',')
+    .map(model => model.trim())
+    .filter(model => model.length > 0);
+  for (const model of models) {
+    const problem = modelNameProblem(model);
+    if (problem) {
+      ctx.addIssue({code: z.ZodIssueCode.custom, message: problem, fatal: true});
+      return z.NEVER;
+    }
+  }
+  if (new Set(models).size !== models.length) {
+    ctx.addIssue({code: z.ZodIssueCode.custom, message: `Fallback models must be unique, got "${value}".`, fatal: true});
+    return z.NEVER;
+  }
+  return models;
+});
+
+/**
+ * Genkit reports a model it has no definition for as NOT_FOUND, and model
+ * APIs answer 404 for one they have retired.
+ */
+export function isModelNotFound(err: unknown): boolean {
+  return (
+    (err instanceof GenkitError && err.status === 'NOT_FOUND') ||
+    (err as {status?: unknown} | null)?.status === 404
+  );
+}
+
+export interface ModelFallbackResult<T> {
+  value: T;
+  /** The model that produced the value. */
+  model: string;
+  /** How many models failed before it. */
+  failedModels: number;
+}
+
+/**
+ * Calls `operation` with each model in `models` until one succeeds. Only
+ * retryable failures move on to the next model: a photo that is invalid or
+ * blocked would fare no better elsewhere, and a cancelled request is over.
+ */
+export async function withModelFallback<T>(
+  models: string[],
+  operation: (model: string) => Promise<T>
+): Promise<ModelFallbackResult<T>> {
+  for (let index = 0; ; index++) {
+    const model = models[index];
+    try {
+      return {value: await operation(model), model, failedModels: index};
+    } catch (err) {
+      if (index === models.length - 1 || !toDetectionError(err).retryable) {
+        throw err;
+      }
+      console.warn(`Model ${model} failed, falling back to ${models[index + 1]}:`, err);
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import {genkitPlugin} from 'genkit/plugin';
+import {parseDataUri} from '@/ai/image/data-uri';
+import {hashImage} from '@/ai/image/hash';
+import {loadImageFixtures} from '@/ai/image/image-fixtures';
+import {
+  DetectNumberOfFingersPromptOutputSchema,
+  type DetectNumberOfFingersPromptOutput,
+} from '@/ai/schemas/detect-number-of-fingers';
+
+/**
+ * @fileOverview A Genkit plugin providing an offline, deterministic stand-in model.
+ *
+ * - mockModel - The plugin. Registers the `mock/finger-detector` model.
+ * - MOCK_FINGER_DETECTOR_MODEL - The name to select the model by.
+ *
+ * The model answers detectNumberOfFingersPrompt without any network access.
+ * For the first image in a request it returns, in order of preference:
+ * the fixtures-file entry for that image, the next scripted response, the
+ * fixtures-file default, or a "no hand" result.
+ */
+
+export const MOCK_FINGER_DETECTOR_MODEL = 'mock/finger-detector';
+
+export interface MockModelOptions {
+  /** Fixtures file in the format described in src/ai/image/image-fixtures.ts. */
+  fixturesPath?: string;
+  /** Responses returned one per call, in order, for images with no fixture entry. */
+  script?: DetectNumberOfFingersPromptOutput[];
+}
+
+const NO_HAND: DetectNumberOfFingersPromptOutput = {status: 'no_hand', confidence: 1, hands: []};
+
+export function mockModel(options: MockModelOptions = {}) {
+  const script = [...(options.script ?? [])];
+
+  return genkitPlugin('mock', async ai => {
+    ai.defineModel(
+      {
+        name: MOCK_FINGER_DETECTOR_MODEL,
+        label: 'Mock - Finger Detector (offline)',
+        supports: {media: true, multiturn: false, output: ['json']},
+      },
+      async request => {
+        const mediaUrl = request.messages
+          .flatMap(message => message.content)
+          .find(part => part.media?.url.startsWith('data:'))?.media?.url;
+
+        const fixtures = options.fixturesPath
+          ? await loadImageFixtures(options.fixturesPath, DetectNumberOfFingersPromptOutputSchema)
+          : undefined;
+        const fixture = mediaUrl ? fixtures?.byHash.get(hashImage(parseDataUri(mediaUrl).bytes)) : undefined;
+        const output = fixture ?? script.shift() ?? fixtures?.default ?? NO_HAND;
+
+        return {
+          message: {role: 'model', content: [{text: JSON.stringify(output)}]},
+          finishReason: 'stop',
+        };
+      }
+    );
+  });
+}
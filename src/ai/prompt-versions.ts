@@ -0,0 +1,73 @@
+import {existsSync} from 'node:fs';
+import path from 'node:path';
+import {z} from 'genkit';
+
+/**
+ * @fileOverview Choosing between versions of a prompt file.
+ *
+ * Prompt files live in src/ai/prompts and are named `<prompt>.<version>.prompt`,
+ * e.g. `detectNumberOfFingersPrompt.v2.prompt`. Config names one version, or
+ * splits traffic across several with relative weights: `v1:90,v2:10`.
+ *
+ * - PromptVersionsSchema - Parses and validates a version split.
+ * - pickPromptVersion - Picks a version for one request according to the weights.
+ * - checkPromptFiles - Fails unless every version in a split has a prompt file.
+ */
+
+export interface WeightedPromptVersion {
+  version: string;
+  weight: number;
+}
+
+const VERSION_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export const PromptVersionsSchema = z
+  .string()
+  .transform((value, ctx): WeightedPromptVersion[] => {
+    const versions = value.split(',').map(entry => {
+      const [version, weight = '1'] = entry.trim().split(':');
+      return {version, weight: Number(weight)};
+    });
+    for (const {version, weight} of versions) {
+      if (!VERSION_PATTERN.test(version) || !Number.isFinite(weight) || weight <= 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Invalid prompt version "${version}:${weight}"; expected e.g. "v1" or "v1:90,v2:10".`,
+        });
+        return z.NEVER;
+      }
+    }
+    if (new Set(versions.map(({version}) => version)).size !== versions.length) {
+      ctx.addIssue({code: z.ZodIssueCode.custom, message: `Prompt versions must be unique, got "${value}".`});
+      return z.NEVER;
+    }
+    return versions;
+  });
+
+export function pickPromptVersion(versions: WeightedPromptVersion[], random: () => number = Math.random): string {
+  const total = versions.reduce((sum, {weight}) => sum + weight, 0);
+  let remaining = random() * total;
+  for (const {version, weight} of versions) {
+    remaining -= weight;
+    if (remaining < 0) {
+      return version;
+    }
+  }
+  return versions[versions.length - 1].version;
+}
+
+/**
+ * Throws unless `dir` holds `<prompt>.<version>.prompt` for every version.
+ * Called at startup, so that a typo in a traffic split is caught before it
+ * fails that share of requests.
+ */
+export function checkPromptFiles(dir: string, prompt: string, versions: WeightedPromptVersion[]): void {
+  const missing = versions
+    .map(({version}) => version)
+    .filter(version => !existsSync(path.join(dir, `${prompt}.${version}.prompt`)));
+  if (missing.length > 0) {
+    throw new Error(
+      `No ${prompt} file in ${dir} for prompt version ${missing.map(version => `"${version}"`).join(', ')}; check FINGER_PROMPT_VERSIONS.`
+    );
+  }
+}
@@ -0,0 +1,30 @@
+'use server';
+
+/**
+ * @fileOverview Lets the app show how much of its daily detection quota is left.
+ *
+ * - getDetectionQuota - Returns the current session's quota, or null when there is none.
+ * - QuotaStatus - The return type for the getDetectionQuota function.
+ */
+
+import {getAiConfig} from '@/ai/config';
+import {getIpRateLimiter, getRateLimiter, type QuotaStatus} from '@/ai/rate-limit/rate-limiter';
+import {sessionClient} from '@/ai/rate-limit/subject';
+
+export type {QuotaStatus} from '@/ai/rate-limit/rate-limiter';
+
+export async function getDetectionQuota(): Promise<QuotaStatus | null> {
+  const {enabled, dailyQuota} = getAiConfig().rateLimit;
+  if (!enabled || dailyQuota === 0) {
+    return null;
+  }
+  // Also starts the session, so the app's HTTP requests are charged to it
+  // rather than only to its IP address.
+  const {subject, ip} = await sessionClient();
+  const [own, shared] = await Promise.all([
+    getRateLimiter().quota(subject),
+    ip ? getIpRateLimiter().quota(ip) : undefined,
+  ]);
+  // Whichever runs out first is what the session can still use.
+  return shared && shared.remaining! < own.remaining! ? shared : own;
+}
@@ -0,0 +1,186 @@
+import {getAiConfig} from '@/ai/config';
+import type {DetectionError} from '@/ai/errors';
+import {MemoryRateLimitStore, type RateLimitState, type RateLimitStore} from '@/ai/rate-limit/store';
+import type {RateLimitClient} from '@/ai/rate-limit/subject';
+
+/**
+ * @fileOverview Per-client rate limiting and daily quotas for detection requests.
+ *
+ * - RateLimiter - A token bucket per client, plus a daily quota of analyzed images.
+ * - RateLimitPolicy - The limits a RateLimiter enforces.
+ * - QuotaStatus - How much of the daily quota a client has left.
+ * - getRateLimiter - Returns the rate limiter configured for this process.
+ * - getIpRateLimiter - Returns the looser rate limiter applied to each IP address.
+ * - setRateLimitStore - Keeps limiter state in a different store, e.g. one shared between servers.
+ * - checkRateLimit - Charges a request to a client, returning the DetectionError if it is refused.
+ *
+ * Clients are identified by a subject string such as `session:<id>`,
+ * `ip:<address>` or `api-key:<id>` (see ./subject.ts). Every request takes
+ * one token from the client's bucket, which refills continuously, so short
+ * bursts are allowed but sustained hammering is not. The daily quota instead
+ * counts images, so that a batch or a frame sequence costs what it runs.
+ * Browser requests are charged to their IP address as well, under limits
+ * RATE_LIMIT_IP_FACTOR times higher, since several clients can share one.
+ */
+
+export interface RateLimitPolicy {
+  /** Requests a client can make at once; the size of its bucket. */
+  burst: number;
+  /** Tokens added back to each bucket per minute. */
+  refillPerMinute: number;
+  /** Images a client may have analyzed per UTC day; 0 means unlimited. */
+  dailyQuota: number;
+}
+
+export interface QuotaStatus {
+  /** Null when there is no daily quota. */
+  limit: number | null;
+  remaining: number | null;
+  /** When the quota next resets, in milliseconds since the epoch. */
+  resetsAt: number;
+}
+
+export type RateLimitDecision =
+  | {allowed: true; quota: QuotaStatus}
+  | {allowed: false; reason: 'rate'; retryAfterMs: number; quota: QuotaStatus}
+  | {allowed: false; reason: 'quota'; quota: QuotaStatus};
+
+const DAY_MS = 24 * 60 * 60_000;
+
+export class RateLimiter {
+  constructor(
+    private readonly policy: RateLimitPolicy,
+    private readonly store: RateLimitStore = new MemoryRateLimitStore()
+  ) {}
+
+  /**
+   * Takes one token from `subject`'s bucket and charges `cost` images to its
+   * quota, if both allow it. Throws a RangeError unless `cost` is a positive
+   * integer, since anything else would not charge the quota.
+   */
+  async consume(subject: string, cost = 1, now = Date.now()): Promise<RateLimitDecision> {
+    if (!Number.isSafeInteger(cost) || cost < 1) {
+      throw new RangeError(`A rate limited request must cost a positive whole number of images, not ${cost}.`);
+    }
+    let decision: RateLimitDecision | undefined;
+    await this.store.update(
+      subject,
+      current => {
+        const state = this.refill(current, now);
+        const quota = this.quotaStatus(state, now);
+        if (quota.remaining !== null && quota.remaining < cost) {
+          decision = {allowed: false, reason: 'quota', quota};
+          return state;
+        }
+        if (state.tokens < 1) {
+          const retryAfterMs = Math.ceil(((1 - state.tokens) * 60_000) / this.policy.refillPerMinute);
+          decision = {allowed: false, reason: 'rate', retryAfterMs, quota};
+          return state;
+        }
+        const next = {...state, tokens: state.tokens - 1, quotaUsed: state.quotaUsed + cost};
+        decision = {allowed: true, quota: this.quotaStatus(next, now)};
+        return next;
+      },
+      // Long enough for an idle bucket to refill and the day's usage to lapse.
+      Math.max(DAY_MS, (this.policy.burst * 60_000) / this.policy.refillPerMinute)
+    );
+    return decision!;
+  }
+
+  /** Reports `subject`'s remaining quota without charging anything. */
+  async quota(subject: string, now = Date.now()): Promise<QuotaStatus> {
+    return this.quotaStatus(this.refill(await this.store.get(subject), now), now);
+  }
+
+  private refill(current: RateLimitState | undefined, now: number): RateLimitState {
+    const {burst, refillPerMinute} = this.policy;
+    const today = utcDay(now);
+    if (!current) {
+      return {tokens: burst, refilledAt: now, quotaDay: today, quotaUsed: 0};
+    }
+    const elapsedMs = Math.max(0, now - current.refilledAt);
+    return {
+      tokens: Math.min(burst, current.tokens + (elapsedMs * refillPerMinute) / 60_000),
+      refilledAt: now,
+      quotaDay: today,
+      quotaUsed: current.quotaDay === today ? current.quotaUsed : 0,
+    };
+  }
+
+  private quotaStatus(state: RateLimitState, now: number): QuotaStatus {
+    const {dailyQuota} = this.policy;
+    const resetsAt = (Math.floor(now / DAY_MS) + 1) * DAY_MS;
+    if (dailyQuota === 0) {
+      return {limit: null, remaining: null, resetsAt};
+    }
+    return {limit: dailyQuota, remaining: Math.max(0, dailyQuota - state.quotaUsed), resetsAt};
+  }
+}
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+let rateLimitStore: RateLimitStore | undefined;
+let rateLimiter: RateLimiter | undefined;
+let ipRateLimiter: RateLimiter | undefined;
+
+export function setRateLimitStore(store: RateLimitStore) {
+  rateLimitStore = store;
+  rateLimiter = undefined;
+  ipRateLimiter = undefined;
+}
+
+export function getRateLimiter(): RateLimiter {
+  rateLimiter ??= new RateLimiter(getAiConfig().rateLimit, rateLimitStore);
+  return rateLimiter;
+}
+
+export function getIpRateLimiter(): RateLimiter {
+  if (!ipRateLimiter) {
+    const {burst, refillPerMinute, dailyQuota, ipFactor} = getAiConfig().rateLimit;
+    ipRateLimiter = new RateLimiter(
+      {
+        burst: Math.round(burst * ipFactor),
+        refillPerMinute: refillPerMinute * ipFactor,
+        dailyQuota: Math.round(dailyQuota * ipFactor),
+      },
+      rateLimitStore
+    );
+  }
+  return ipRateLimiter;
+}
+
+/**
+ * Charges a request for `cost` images to the client's subject and then to
+ * its IP address. Returns null when it may go ahead, or the error to report
+ * when either refuses it. A request the IP address refuses has still used
+ * one of the client's own tokens.
+ */
+export async function checkRateLimit({subject, ip}: RateLimitClient, cost = 1): Promise<DetectionError | null> {
+  if (!getAiConfig().rateLimit.enabled) {
+    return null;
+  }
+  let decision = await getRateLimiter().consume(subject, cost);
+  if (decision.allowed && ip && ip !== subject) {
+    decision = await getIpRateLimiter().consume(ip, cost);
+  }
+  if (decision.allowed) {
+    return null;
+  }
+  if (decision.reason === 'quota') {
+    return {
+      kind: 'quota_exceeded',
+      message: `You have used today's detection quota of ${decision.quota.limit} images. It resets at midnight UTC.`,
+      retryable: false,
+      resetsAt: decision.quota.resetsAt,
+    };
+  }
+  const seconds = Math.ceil(decision.retryAfterMs / 1000);
+  return {
+    kind: 'rate_limited',
+    message: `You're scanning too quickly. Slow down and try again in ${seconds} second${seconds === 1 ? '' : 's'}.`,
+    retryable: true,
+    retryAfterMs: decision.retryAfterMs,
+  };
+}
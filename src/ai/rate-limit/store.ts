@@ -0,0 +1,71 @@
+/**
+ * @fileOverview Where rate limiter state is kept.
+ *
+ * - RateLimitStore - The interface a store must implement, e.g. on top of Redis for several servers.
+ * - RateLimitState - The token bucket and daily quota usage of one client.
+ * - MemoryRateLimitStore - A store for a single server process.
+ */
+
+export interface RateLimitState {
+  /** Tokens left in the bucket as of `refilledAt`; may be fractional. */
+  tokens: number;
+  refilledAt: number;
+  /** The UTC day `quotaUsed` counts towards, as YYYY-MM-DD. */
+  quotaDay: string;
+  quotaUsed: number;
+}
+
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitState | undefined>;
+  /**
+   * Replaces the state of `key` with `update(current)` and returns it. Stores
+   * shared between processes must apply the update atomically, so that
+   * concurrent requests cannot both spend the last token.
+   * The state may be dropped once it is `ttlMs` old.
+   */
+  update(
+    key: string,
+    update: (current: RateLimitState | undefined) => RateLimitState,
+    ttlMs: number
+  ): Promise<RateLimitState>;
+}
+
+const SWEEP_INTERVAL_MS = 60_000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly entries = new Map<string, {state: RateLimitState; expiresAt: number}>();
+  private nextSweepAt = 0;
+
+  async get(key: string): Promise<RateLimitState | undefined> {
+    const entry = this.entries.get(key);
+    return entry && entry.expiresAt > Date.now() ? entry.state : undefined;
+  }
+
+  async update(
+    key: string,
+    update: (current: RateLimitState | undefined) => RateLimitState,
+    ttlMs: number
+  ): Promise<RateLimitState> {
+    const now = Date.now();
+    this.sweep(now);
+    // Nothing awaits between the read and the write, so this is atomic
+    // within the process.
+    const entry = this.entries.get(key);
+    const state = update(entry && entry.expiresAt > now ? entry.state : undefined);
+    this.entries.set(key, {state, expiresAt: now + ttlMs});
+    return state;
+  }
+
+  /** Forgets idle clients now and then, so the map does not grow without bound. */
+  private sweep(now: number) {
+    if (now < this.nextSweepAt) {
+      return;
+    }
+    this.nextSweepAt = now + SWEEP_INTERVAL_MS;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
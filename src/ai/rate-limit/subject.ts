@@ -0,0 +1,135 @@
+import {createHmac, randomBytes, randomUUID, timingSafeEqual} from 'node:crypto';
+import {cookies, headers} from 'next/headers';
+import {getAiConfig} from '@/ai/config';
+
+/**
+ * @fileOverview Identifies the client a request is charged to.
+ *
+ * - SESSION_COOKIE - The cookie holding a browser's signed anonymous session id.
+ * - RateLimitClient - The subjects a request is charged to.
+ * - sessionClient - The client making the current server action, starting a session if needed.
+ * - requestClient - The client making a request with the given headers, without starting a session, if it can be told apart.
+ * - apiKeySubject - The subject for a client authenticated with an API key.
+ *
+ * Browsers are identified by an anonymous session cookie and, before they
+ * have one, by IP address. Session ids are signed with SESSION_SECRET, so a
+ * client cannot pick its own; a cookie that fails the check is ignored.
+ * Browser requests are also charged to their IP address, so that discarding
+ * the cookie does not reset a client's limits. The address is only read from
+ * X-Forwarded-For behind TRUSTED_PROXIES proxies, since clients can send the
+ * header themselves. Without it no address is charged: one bucket shared by
+ * every browser would let a single client use up everyone's quota.
+ */
+
+export const SESSION_COOKIE = 'fc_session';
+const SESSION_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+
+export interface RateLimitClient {
+  /** The client's own subject, which its detections are recorded under. */
+  subject: string;
+  /** The client's IP address subject, charged as well when set. */
+  ip?: string;
+}
+
+type RequestHeaders = Headers | Record<string, string | undefined>;
+
+export async function sessionClient(): Promise<RateLimitClient> {
+  const [cookieStore, requestHeaders] = await Promise.all([cookies(), headers()]);
+  let sessionId = verifySessionCookie(cookieStore.get(SESSION_COOKIE)?.value);
+  if (!sessionId) {
+    sessionId = randomUUID();
+    cookieStore.set(SESSION_COOKIE, signSessionId(sessionId), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: SESSION_MAX_AGE_SECONDS,
+      path: '/',
+    });
+  }
+  return {subject: `session:${sessionId}`, ip: ipSubject(requestHeaders)};
+}
+
+/** Null when the request has neither a valid session nor a known IP address. */
+export function requestClient(requestHeaders: RequestHeaders): RateLimitClient | null {
+  const cookie = header(requestHeaders, 'cookie')
+    ?.split(';')
+    .map(pair => pair.trim().split('='))
+    .find(([name]) => name === SESSION_COOKIE)?.[1];
+  const sessionId = verifySessionCookie(cookie);
+  const ip = ipSubject(requestHeaders);
+  if (sessionId) {
+    return {subject: `session:${sessionId}`, ip};
+  }
+  return ip ? {subject: ip, ip} : null;
+}
+
+export function apiKeySubject(keyId: string): string {
+  return `api-key:${keyId}`;
+}
+
+function header(requestHeaders: RequestHeaders, name: string): string | undefined {
+  return requestHeaders instanceof Headers ? requestHeaders.get(name) ?? undefined : requestHeaders[name];
+}
+
+let warnedNoProxies = false;
+
+/**
+ * Each trusted proxy appends the address it received the request from, so
+ * the client is the entry that many places from the end. Entries before it
+ * were sent by the client and prove nothing.
+ */
+function ipSubject(requestHeaders: RequestHeaders): string | undefined {
+  const {enabled, trustedProxies} = getAiConfig().rateLimit;
+  if (trustedProxies === 0) {
+    if (enabled && !warnedNoProxies) {
+      warnedNoProxies = true;
+      console.warn(
+        'TRUSTED_PROXIES is not set, so browsers are rate limited by session only; a client that drops its session cookie starts afresh.'
+      );
+    }
+    return undefined;
+  }
+  const forwardedFor = header(requestHeaders, 'x-forwarded-for')
+    ?.split(',')
+    .map(entry => entry.trim());
+  const ip = forwardedFor
+    ? forwardedFor[forwardedFor.length - trustedProxies]
+    : header(requestHeaders, 'x-real-ip')?.trim();
+  return ip ? `ip:${ip}` : undefined;
+}
+
+function signSessionId(sessionId: string): string {
+  return `${sessionId}.${sessionSignature(sessionId)}`;
+}
+
+/** The session id in a signed cookie value, or undefined if the signature does not match. */
+function verifySessionCookie(value: string | undefined): string | undefined {
+  const separator = value?.lastIndexOf('.') ?? -1;
+  if (!value || separator <= 0) {
+    return undefined;
+  }
+  const sessionId = value.slice(0, separator);
+  const signature = Buffer.from(value.slice(separator + 1));
+  const expected = Buffer.from(sessionSignature(sessionId));
+  return signature.length === expected.length && timingSafeEqual(signature, expected) ? sessionId : undefined;
+}
+
+function sessionSignature(sessionId: string): string {
+  return createHmac('sha256', sessionSecret()).update(sessionId).digest('base64url');
+}
+
+let ephemeralSecret: Buffer | undefined;
+
+function sessionSecret(): string | Buffer {
+  const {secret} = getAiConfig().session;
+  if (secret) {
+    return secret;
+  }
+  if (!ephemeralSecret) {
+    ephemeralSecret = randomBytes(32);
+    console.warn(
+      'SESSION_SECRET is not set; signing sessions with a random key, so they reset on restart and are not shared between servers.'
+    );
+  }
+  return ephemeralSecret;
+}
@@ -0,0 +1,112 @@
+import {DetectionFailure, detectionError, toDetectionError} from '@/ai/errors';
+
+/**
+ * @fileOverview Per-attempt timeouts and bounded retries for flaky model calls.
+ *
+ * - withRetries - Runs an operation, retrying retryable failures with exponential backoff.
+ * - RetryOptions - Controls timeouts, attempts, backoff and cancellation.
+ * - throwIfCancelled - Fails with a `cancelled` error once a signal has been aborted.
+ */
+
+export interface RetryOptions {
+  /** How long a single attempt may take before it fails with a `timeout` error. */
+  timeoutMs: number;
+  /** Total number of attempts, including the first. */
+  maxAttempts: number;
+  /** Backoff before the first retry; doubles on each later retry. */
+  baseDelayMs: number;
+  /** Upper bound on the backoff between retries. */
+  maxDelayMs: number;
+  /** Aborting this stops waiting immediately with a `cancelled` error. */
+  signal?: AbortSignal;
+  /** Narrows which retryable failures are worth another attempt; all of them by default. */
+  shouldRetry?: (err: unknown) => boolean;
+}
+
+export interface RetryResult<T> {
+  value: T;
+  /** How many attempts were made, including the one that succeeded. */
+  attempts: number;
+}
+
+/**
+ * Calls `operation` until it succeeds, fails with a non-retryable error, or
+ * runs out of attempts. Each attempt gets its own signal that is aborted on
+ * timeout or cancellation; operations that cannot be interrupted are simply
+ * abandoned and their eventual result ignored.
+ */
+export async function withRetries<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  options: RetryOptions
+): Promise<RetryResult<T>> {
+  for (let attempt = 1; ; attempt++) {
+    throwIfCancelled(options.signal);
+    try {
+      const value = await withTimeout(operation, options.timeoutMs, options.signal);
+      return {value, attempts: attempt};
+    } catch (err) {
+      if (
+        attempt >= options.maxAttempts ||
+        !toDetectionError(err).retryable ||
+        (options.shouldRetry && !options.shouldRetry(err))
+      ) {
+        throw err;
+      }
+      console.warn(`Detection attempt ${attempt} of ${options.maxAttempts} failed, retrying:`, err);
+      await sleep(backoffDelay(attempt, options), options.signal);
+    }
+  }
+}
+
+/** Exponential backoff with "equal jitter": half fixed, half random. */
+function backoffDelay(attempt: number, {baseDelayMs, maxDelayMs}: RetryOptions): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+function withTimeout<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  parentSignal?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  return new Promise<T>((resolve, reject) => {
+    const fail = (error: DetectionFailure) => {
+      controller.abort(error);
+      reject(error);
+    };
+    const onCancel = () => fail(new DetectionFailure(detectionError('cancelled')));
+    const timer = setTimeout(
+      () => fail(new DetectionFailure(detectionError('timeout'))),
+      timeoutMs
+    );
+    parentSignal?.addEventListener('abort', onCancel, {once: true});
+
+    operation(controller.signal)
+      .then(resolve, reject)
+      .finally(() => {
+        clearTimeout(timer);
+        parentSignal?.removeEventListener('abort', onCancel);
+      });
+  });
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onCancel = () => {
+      clearTimeout(timer);
+      reject(new DetectionFailure(detectionError('cancelled')));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onCancel);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onCancel, {once: true});
+  });
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new DetectionFailure(detectionError('cancelled'));
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * @fileOverview Zod schemas for detecting fingers in many images with one request.
+ *
+ * - DetectFingerBatchInputSchema - A batch of photos, each with a caller-chosen id.
+ * - DetectFingerBatchItemResultSchema - The detection result or the failure for one photo.
+ * - DetectFingerBatchOutputSchema - The per-photo results, in input order.
+ * - DetectFingerBatchProgressSchema - Streamed after each photo finishes.
+ */
+
+import {z} from 'genkit';
+import {DetectionErrorSchema} from '@/ai/errors';
+import {DetectNumberOfFingersOutputSchema} from '@/ai/schemas/detect-number-of-fingers';
+
+export const MAX_BATCH_SIZE = 50;
+
+export const DetectFingerBatchInputSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        id: z.string().min(1).max(200).describe('Identifies this photo in the results and progress updates.'),
+        photoDataUri: z
+          .string()
+          .describe("A photo of a hand, as a Base64 data URI: 'data:<mimetype>;base64,<encoded_data>'."),
+      })
+    )
+    .min(1)
+    .max(MAX_BATCH_SIZE)
+    .describe('The photos to detect. Ids must be unique within the batch.'),
+});
+export type DetectFingerBatchInput = z.infer<typeof DetectFingerBatchInputSchema>;
+
+export const DetectFingerBatchItemResultSchema = z.discriminatedUnion('ok', [
+  z.object({id: z.string(), ok: z.literal(true), output: DetectNumberOfFingersOutputSchema}),
+  z.object({id: z.string(), ok: z.literal(false), error: DetectionErrorSchema}),
+]);
+export type DetectFingerBatchItemResult = z.infer<typeof DetectFingerBatchItemResultSchema>;
+
+export const DetectFingerBatchOutputSchema = z.object({
+  results: z.array(DetectFingerBatchItemResultSchema),
+  succeeded: z.number().int().min(0),
+  failed: z.number().int().min(0),
+});
+export type DetectFingerBatchOutput = z.infer<typeof DetectFingerBatchOutputSchema>;
+
+export const DetectFingerBatchProgressSchema = z.object({
+  id: z.string().describe('The photo that just finished.'),
+  ok: z.boolean(),
+  completed: z.number().int().min(0),
+  total: z.number().int().min(1),
+});
+export type DetectFingerBatchProgress = z.infer<typeof DetectFingerBatchProgressSchema>;
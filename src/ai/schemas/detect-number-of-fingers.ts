@@ -0,0 +1,147 @@
+/**
+ * @fileOverview Zod schemas shared by the finger detection flow and its detector backends.
+ *
+ * - DetectNumberOfFingersInputSchema - The input accepted by every finger detector.
+ * - DetectNumberOfFingersPromptOutputSchema - The raw structured output requested from the model.
+ * - DetectNumberOfFingersOutputSchema - The normalized result returned by every finger detector.
+ * - DetectNumberOfFingersResultSchema - The output, or the failure, as a value.
+ * - DetectionStageSchema - The steps of the detection pipeline, streamed as it reaches each one.
+ */
+
+import {z} from 'genkit';
+import {DetectionErrorSchema} from '@/ai/errors';
+
+export const DetectNumberOfFingersInputSchema = z.object({
+  photoDataUri: z
+    .string()
+    .describe(
+      'A photo of a hand with fingers, as a data URI that must include a MIME type and use Base64 encoding. Expected format: \'data:<mimetype>;base64,<encoded_data>\'.' 
+    ),
+});
+export type DetectNumberOfFingersInput = z.infer<typeof DetectNumberOfFingersInputSchema>;
+
+export const FINGER_NAMES = ['thumb', 'index', 'middle', 'ring', 'pinky'] as const;
+export type FingerName = (typeof FINGER_NAMES)[number];
+
+export const FingerNameSchema = z.enum(FINGER_NAMES);
+
+export const FingerStateSchema = z
+  .enum(['extended', 'folded', 'occluded'])
+  .describe('Whether the finger is visibly extended, folded down, or hidden from view.');
+export type FingerState = z.infer<typeof FingerStateSchema>;
+
+export const FingerStatesSchema = z.object({
+  thumb: FingerStateSchema,
+  index: FingerStateSchema,
+  middle: FingerStateSchema,
+  ring: FingerStateSchema,
+  pinky: FingerStateSchema,
+});
+
+export const HandednessSchema = z
+  .enum(['left', 'right'])
+  .describe("Whether this is the person's own left or right hand.");
+export type Handedness = z.infer<typeof HandednessSchema>;
+
+// Coordinates are fractions of the image width and height, measured from the
+// top-left corner of the image exactly as captured (i.e. not mirrored).
+export const NormalizedCoordinateSchema = z.number().min(0).max(1);
+
+export const BoundingBoxSchema = z
+  .object({
+    x: NormalizedCoordinateSchema.describe('Left edge, as a fraction of the image width.'),
+    y: NormalizedCoordinateSchema.describe('Top edge, as a fraction of the image height.'),
+    width: NormalizedCoordinateSchema.describe('Width, as a fraction of the image width.'),
+    height: NormalizedCoordinateSchema.describe('Height, as a fraction of the image height.'),
+  })
+  .describe('The box enclosing the whole hand, normalized to the image size.');
+export type BoundingBox = z.infer<typeof BoundingBoxSchema>;
+
+export const FingertipSchema = z.object({
+  finger: FingerNameSchema,
+  x: NormalizedCoordinateSchema.describe('Horizontal position, as a fraction of the image width.'),
+  y: NormalizedCoordinateSchema.describe('Vertical position, as a fraction of the image height.'),
+});
+export type Fingertip = z.infer<typeof FingertipSchema>;
+
+export const PromptHandSchema = z.object({
+  handedness: HandednessSchema,
+  boundingBox: BoundingBoxSchema,
+  fingertips: z.array(FingertipSchema).describe('The approximate tip position of each extended finger.'),
+  fingers: FingerStatesSchema.describe('The state of each finger on the hand.'),
+  numberOfFingers: z.number().describe('The number of fingers being held up on this hand.'),
+});
+export type PromptHand = z.infer<typeof PromptHandSchema>;
+
+export const DetectionStatusSchema = z
+  .enum(['ok', 'no_hand', 'occluded', 'ambiguous', 'low_quality'])
+  .describe(
+    'ok: the count is reliable. no_hand: no hand is visible. occluded: the hand is too covered to count. ambiguous: the pose could reasonably be read as more than one count. low_quality: the image is too dark, blurry or small to analyze.'
+  );
+export type DetectionStatus = z.infer<typeof DetectionStatusSchema>;
+
+export const ConfidenceSchema = z
+  .number()
+  .min(0)
+  .max(1)
+  .describe('How confident the count is, from 0 (a guess) to 1 (certain).');
+
+export const DetectNumberOfFingersPromptOutputSchema = z.object({
+  status: DetectionStatusSchema,
+  confidence: ConfidenceSchema,
+  hands: z.array(PromptHandSchema).describe('Every hand visible in the image, at most two.'),
+});
+export type DetectNumberOfFingersPromptOutput = z.infer<typeof DetectNumberOfFingersPromptOutputSchema>;
+
+export const DetectedHandSchema = z.object({
+  handedness: HandednessSchema,
+  boundingBox: BoundingBoxSchema,
+  fingertips: z.array(FingertipSchema).describe('The approximate tip position of each extended finger.'),
+  fingers: FingerStatesSchema.describe('The state of each finger on the hand.'),
+  numberOfFingers: z
+    .number()
+    .describe('The number of fingers being held up on this hand, derived from the per-finger states.'),
+  countMatchesFingers: z
+    .boolean()
+    .describe('Whether the count reported by the model agreed with its per-finger states.'),
+});
+export type DetectedHand = z.infer<typeof DetectedHandSchema>;
+
+export const DetectNumberOfFingersOutputSchema = z.object({
+  status: DetectionStatusSchema,
+  confidence: ConfidenceSchema,
+  hands: z.array(DetectedHandSchema).describe('Every hand detected in the image, at most two.'),
+  numberOfFingers: z.number().describe('The combined number of fingers being held up across all hands.'),
+  detector: z.string().describe('The name of the detector backend that produced this result.'),
+  attempts: z
+    .number()
+    .int()
+    .min(0)
+    .describe('How many model calls it took to get this result, including retries; 0 for cached results.'),
+  cached: z.boolean().describe('Whether this result was reused from an earlier, near-identical frame.'),
+  promptVersion: z
+    .string()
+    .nullable()
+    .describe('The version of the detection prompt that produced this result, or null for backends without a prompt.'),
+  model: z
+    .string()
+    .nullable()
+    .describe('The model that answered, which may be a configured fallback; null for backends without a model.'),
+});
+export type DetectNumberOfFingersOutput = z.infer<typeof DetectNumberOfFingersOutputSchema>;
+
+export const DetectNumberOfFingersResultSchema = z.discriminatedUnion('ok', [
+  z.object({ok: z.literal(true), output: DetectNumberOfFingersOutputSchema}),
+  z.object({ok: z.literal(false), error: DetectionErrorSchema}),
+]);
+export type DetectNumberOfFingersResult = z.infer<typeof DetectNumberOfFingersResultSchema>;
+
+export const DetectionStageSchema = z
+  .enum(['validating', 'preprocessing', 'cache_hit', 'model_call', 'post_validation'])
+  .describe(
+    'validating: checking the photo. preprocessing: preparing the frame and looking it up in the cache. cache_hit: reusing the result for a near-identical frame. model_call: waiting on the detector. post_validation: checking and normalizing its answer.'
+  );
+export type DetectionStage = z.infer<typeof DetectionStageSchema>;
+
+export const DetectionProgressSchema = z.object({stage: DetectionStageSchema});
+export type DetectionProgress = z.infer<typeof DetectionProgressSchema>;
@@ -0,0 +1,111 @@
+import type {TokenUsage} from '@/ai/detectors';
+import type {DetectionErrorKind} from '@/ai/errors';
+import type {DetectionStage, DetectionStatus} from '@/ai/schemas/detect-number-of-fingers';
+import {getTelemetrySink} from '@/ai/telemetry/sinks';
+
+/**
+ * @fileOverview One structured telemetry event per finger detection.
+ *
+ * - DetectionTelemetryEvent - What is recorded about a detection.
+ * - DetectionTrace - Times a detection through the pipeline stages and records its event.
+ *
+ * Latency is split by pipeline stage. `decodeMs` covers validating and
+ * decoding the photo and hashing it for the cache. `modelMs` is the detector
+ * call, including retries and every run of a voting ensemble.
+ * `postProcessingMs` covers checking and caching its answer.
+ */
+
+export interface DetectionTelemetryEvent {
+  type: 'detection';
+  requestId: string;
+  /** When the detection started, as an ISO 8601 timestamp. */
+  timestamp: string;
+  detector: string | null;
+  /** The model that answered, or null when no model was called. */
+  model: string | null;
+  promptVersion: string | null;
+  latencyMs: {
+    total: number;
+    decode: number;
+    model: number;
+    postProcessing: number;
+  };
+  /** Null when no model was called, e.g. for cached results. */
+  usage: TokenUsage | null;
+  /** The result status, or null when the detection failed. */
+  status: DetectionStatus | null;
+  cached: boolean;
+  attempts: number;
+  /** The kind of failure, or null when the detection succeeded. */
+  errorKind: DetectionErrorKind | null;
+}
+
+export class DetectionTrace {
+  private readonly startedAt = Date.now();
+  private readonly start = performance.now();
+  private readonly stageStarts = new Map<DetectionStage, number>();
+  private modelCall: {model?: string; usage?: TokenUsage} = {};
+
+  constructor(readonly requestId: string) {}
+
+  stage(stage: DetectionStage) {
+    this.stageStarts.set(stage, performance.now());
+  }
+
+  /** Notes which model answered and what it cost, which the detection output does not carry. */
+  modelAnswered(model: string | undefined, usage: TokenUsage | undefined) {
+    this.modelCall = {model, usage};
+  }
+
+  /** Builds the event for the finished detection and sends it to the configured sink, if any. */
+  finish(
+    outcome:
+      | {
+          detector: string;
+          status: DetectionStatus;
+          cached: boolean;
+          attempts: number;
+          promptVersion: string | null;
+        }
+      | {errorKind: DetectionErrorKind; detector?: string}
+  ) {
+    const sink = getTelemetrySink();
+    if (!sink) {
+      return;
+    }
+    const end = performance.now();
+    const at = (stage: DetectionStage) => this.stageStarts.get(stage);
+    const modelStart = at('model_call');
+    const postStart = at('post_validation');
+    const decodeEnd = modelStart ?? at('cache_hit') ?? end;
+    const succeeded = 'status' in outcome;
+
+    try {
+      sink.record({
+        type: 'detection',
+        requestId: this.requestId,
+        timestamp: new Date(this.startedAt).toISOString(),
+        detector: outcome.detector ?? null,
+        model: this.modelCall.model ?? null,
+        promptVersion: succeeded ? outcome.promptVersion : null,
+        latencyMs: {
+          total: round(end - this.start),
+          decode: round(decodeEnd - this.start),
+          model: modelStart === undefined ? 0 : round((postStart ?? end) - modelStart),
+          postProcessing: postStart === undefined ? 0 : round(end - postStart),
+        },
+        usage: this.modelCall.usage ?? null,
+        status: succeeded ? outcome.status : null,
+        cached: succeeded ? outcome.cached : false,
+        attempts: succeeded ? outcome.attempts : 0,
+        errorKind: succeeded ? null : outcome.errorKind,
+      });
+    } catch (err) {
+      console.error('Could not record detection telemetry:', err);
+    }
+  }
+}
+
+function round(ms: number): number {
+  return Math.round(ms * 10) / 10;
+}
@@ -0,0 +1,68 @@
+import {appendFile, mkdir} from 'node:fs/promises';
+import path from 'node:path';
+import {getAiConfig} from '@/ai/config';
+import type {DetectionTelemetryEvent} from '@/ai/telemetry/detection-event';
+
+/**
+ * @fileOverview Where telemetry events are sent.
+ *
+ * - TelemetrySink - The interface a sink must implement, e.g. to forward events to a metrics service.
+ * - MemoryTelemetrySink - Keeps the most recent events in memory, for tests and debugging.
+ * - JsonLinesFileSink - Appends each event to a file as one line of JSON.
+ * - getTelemetrySink - Returns the sink configured for this process, if any.
+ * - setTelemetrySink - Sends events to a different sink.
+ */
+
+export interface TelemetrySink {
+  /** Must not throw: telemetry never fails a detection. */
+  record(event: DetectionTelemetryEvent): void;
+}
+
+export class MemoryTelemetrySink implements TelemetrySink {
+  readonly events: DetectionTelemetryEvent[] = [];
+
+  constructor(private readonly maxEvents = 1_000) {}
+
+  record(event: DetectionTelemetryEvent) {
+    this.events.push(event);
+    if (this.events.length > this.maxEvents) {
+      this.events.splice(0, this.events.length - this.maxEvents);
+    }
+  }
+}
+
+export class JsonLinesFileSink implements TelemetrySink {
+  // Appends are chained so lines never interleave and keep their order.
+  private pending: Promise<void>;
+
+  constructor(readonly filePath: string) {
+    this.pending = mkdir(path.dirname(filePath), {recursive: true})
+      .then(() => undefined)
+      .catch(err => console.error(`Could not create the telemetry directory for ${filePath}:`, err));
+  }
+
+  record(event: DetectionTelemetryEvent) {
+    this.pending = this.pending
+      .then(() => appendFile(this.filePath, JSON.stringify(event) + '\n'))
+      .catch(err => console.error(`Could not write telemetry to ${this.filePath}:`, err));
+  }
+
+  /** Resolves once every event recorded so far has been written. */
+  flush(): Promise<void> {
+    return this.pending;
+  }
+}
+
+let telemetrySink: TelemetrySink | null | undefined;
+
+export function setTelemetrySink(sink: TelemetrySink | null) {
+  telemetrySink = sink;
+}
+
+export function getTelemetrySink(): TelemetrySink | null {
+  if (telemetrySink === undefined) {
+    const {sink, filePath} = getAiConfig().telemetry;
+    telemetrySink = sink === 'jsonl' ? new JsonLinesFileSink(filePath) : sink === 'memory' ? new MemoryTelemetrySink() : null;
+  }
+  return telemetrySink;
+}
@@ -0,0 +1,83 @@
+import type {DetectionStatus, DetectNumberOfFingersOutput} from '@/ai/schemas/detect-number-of-fingers';
+
+/**
+ * @fileOverview Combines detections of consecutive frames into one temporally consistent count.
+ *
+ * - combineFrameDetections - Agrees a count across a frame sequence, or reports that it changed.
+ * - TemporalDetection - The combined result, with how stable the count was.
+ *
+ * A count is only reported when every frame that produced one agrees on it,
+ * and those frames make up a majority of the sequence; a hand caught
+ * mid-motion shows up as frames that disagree, which is reported as
+ * `unstable` rather than picking one of the counts. Frames without a count
+ * (e.g. a motion-blurred frame reported as low_quality) lower the stability
+ * but do not on their own make the sequence unstable.
+ */
+
+export type TemporalDetectionStatus = DetectionStatus | 'unstable';
+
+export type TemporalDetection = Omit<DetectNumberOfFingersOutput, 'status'> & {
+  status: TemporalDetectionStatus;
+  /** Share of frames that agreed with the reported answer, from 0 to 1. */
+  stability: number;
+  /** The count read from each frame, oldest first, or null where a frame had none. */
+  frameCounts: (number | null)[];
+};
+
+/**
+ * @param frames Per-frame detections, oldest first, with null for frames whose detection failed.
+ *   Fewer than half of them may be null.
+ */
+export function combineFrameDetections(frames: (DetectNumberOfFingersOutput | null)[]): TemporalDetection {
+  const detections = frames.filter(frame => frame !== null);
+  if (detections.length * 2 <= frames.length) {
+    throw new Error('combineFrameDetections needs successful detections for most frames.');
+  }
+  const frameCounts = frames.map(frame => (frame?.status === 'ok' ? frame.numberOfFingers : null));
+  const provenance = {
+    detector: detections[0].detector,
+    attempts: detections.reduce((total, detection) => total + detection.attempts, 0),
+    cached: detections.every(detection => detection.cached),
+    frameCounts,
+  };
+
+  const counted = detections.filter(detection => detection.status === 'ok');
+  const distinctCounts = new Set(counted.map(detection => detection.numberOfFingers));
+  if (distinctCounts.size > 1) {
+    // The largest group that did agree is still a useful stability measure.
+    const largestGroup = Math.max(
+      ...[...distinctCounts].map(count => frameCounts.filter(frameCount => frameCount === count).length)
+    );
+    return {
+      ...provenance,
+      status: 'unstable',
+      confidence: 0,
+      hands: [],
+      numberOfFingers: 0,
+      promptVersion: null,
+      model: null,
+      stability: largestGroup / frames.length,
+    };
+  }
+
+  if (counted.length > frames.length / 2) {
+    // The latest agreeing frame shows the hand after it settled, so its
+    // hands and boxes best match what is on screen when the result arrives.
+    const latest = counted[counted.length - 1];
+    const confidence = counted.reduce((total, detection) => total + detection.confidence, 0) / counted.length;
+    return {...latest, ...provenance, confidence, stability: counted.length / frames.length};
+  }
+
+  // Too few frames had a count: report whatever most frames said instead.
+  const statuses = new Map<DetectionStatus, DetectNumberOfFingersOutput[]>();
+  detections
+    .filter(detection => detection.status !== 'ok')
+    .forEach(detection => statuses.set(detection.status, [...(statuses.get(detection.status) ?? []), detection]));
+  const [status, group] = [...statuses.entries()].sort(([, a], [, b]) => b.length - a.length)[0];
+  return {
+    ...group[group.length - 1],
+    ...provenance,
+    status,
+    stability: group.length / frames.length,
+  };
+}
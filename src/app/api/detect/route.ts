@@ -0,0 +1,83 @@
+import {getApiKeyStore, readApiKey} from '@/ai/auth/api-keys';
+import {runDetectNumberOfFingersFlow} from '@/ai/flows/detect-number-of-fingers-flow';
+import {checkRateLimit} from '@/ai/rate-limit/rate-limiter';
+import {apiKeySubject} from '@/ai/rate-limit/subject';
+import {apiErrorResponse, detectionErrorResponse, detectionResponse} from '@/ai/http/responses';
+
+/**
+ * Detects the number of fingers in one photo, for other services.
+ *
+ * Authenticate with `Authorization: Bearer <key>` or `X-API-Key: <key>`, and
+ * send the photo either as `multipart/form-data` with an `image` file field
+ * or as JSON `{"photoDataUri": "data:image/jpeg;base64,..."}`. See the
+ * README for the response format and status codes.
+ */
+export async function POST(request: Request): Promise<Response> {
+  const apiKey = readApiKey(request);
+  if (!apiKey) {
+    return apiErrorResponse('unauthenticated', 'An API key is required.', {'WWW-Authenticate': 'Bearer'});
+  }
+  const client = await getApiKeyStore().find(apiKey);
+  if (!client) {
+    return apiErrorResponse('unauthenticated', 'The API key is not valid.', {'WWW-Authenticate': 'Bearer'});
+  }
+  if (client.disabled) {
+    return apiErrorResponse('forbidden', 'The API key has been revoked.');
+  }
+  const subject = apiKeySubject(client.id);
+  const limited = await checkRateLimit({subject});
+  if (limited) {
+    return detectionErrorResponse(limited);
+  }
+
+  const photo = await readPhotoDataUri(request);
+  if (!photo.ok) {
+    return photo.response;
+  }
+
+  const result = await runDetectNumberOfFingersFlow({photoDataUri: photo.photoDataUri}, {
+    sessionId: subject,
+    signal: request.signal,
+  });
+  return result.ok ? detectionResponse(result.output) : detectionErrorResponse(result.error);
+}
+
+async function readPhotoDataUri(
+  request: Request
+): Promise<{ok: true; photoDataUri: string} | {ok: false; response: Response}> {
+  const contentType = request.headers.get('content-type') ?? '';
+
+  if (contentType.startsWith('multipart/form-data')) {
+    let image: FormDataEntryValue | null;
+    try {
+      image = (await request.formData()).get('image');
+    } catch {
+      return {ok: false, response: apiErrorResponse('bad_request', 'The multipart body could not be parsed.')};
+    }
+    if (!(image instanceof File)) {
+      return {ok: false, response: apiErrorResponse('bad_request', 'Upload the photo as a file in the "image" field.')};
+    }
+    // The pipeline checks the type, size and contents, as for any other photo.
+    const bytes = Buffer.from(await image.arrayBuffer());
+    return {ok: true, photoDataUri: `data:${image.type || 'application/octet-stream'};base64,${bytes.toString('base64')}`};
+  }
+
+  if (contentType.startsWith('application/json')) {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return {ok: false, response: apiErrorResponse('bad_request', 'The JSON body could not be parsed.')};
+    }
+    const photoDataUri = (body as {photoDataUri?: unknown} | null)?.photoDataUri;
+    if (typeof photoDataUri !== 'string') {
+      return {ok: false, response: apiErrorResponse('bad_request', 'The JSON body must have a "photoDataUri" string.')};
+    }
+    return {ok: true, photoDataUri};
+  }
+
+  return {
+    ok: false,
+    response: apiErrorResponse('unsupported_media_type', 'Send the photo as multipart/form-data or application/json.'),
+  };
+}
@@ -0,0 +1,11 @@
+import {appRoute} from '@genkit-ai/next';
+import type {NextRequest} from 'next/server';
+import {requestFlowContext} from '@/ai/http/flow-context';
+import {detectFingerBatchFlow} from '@/ai/flows/detect-finger-batch';
+
+// Built per request so the flow can see the request's abort signal.
+export function POST(request: NextRequest) {
+  return appRoute(detectFingerBatchFlow, {
+    contextProvider: ({headers}) => requestFlowContext(request, headers),
+  })(request);
+}
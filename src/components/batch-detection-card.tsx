@@ -0,0 +1,181 @@
+"use client";
+
+import { useRef, useState } from 'react';
+import { streamFlow } from '@genkit-ai/next/client';
+import type { DetectFingerBatchItemResult, detectFingerBatchFlow } from '@/ai/flows/detect-finger-batch';
+import type { DetectionStatus } from '@/ai/flows/detect-number-of-fingers';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, Images } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+const BATCH_FLOW_URL = '/api/flows/detect-finger-batch';
+/** Keep in step with MAX_BATCH_SIZE in src/ai/schemas/detect-finger-batch.ts. */
+const MAX_BATCH_FILES = 50;
+/** Photos straight off a phone are far larger than detection needs, and than the 4 MB upload limit. */
+const MAX_UPLOAD_DIMENSION = 1280;
+
+/** Decodes an image file and re-encodes it as a JPEG data URI no larger than MAX_UPLOAD_DIMENSION. */
+async function fileToDataUri(file: File): Promise<string> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const scale = Math.min(1, MAX_UPLOAD_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Failed to get canvas context.');
+    }
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.85);
+  } finally {
+    bitmap.close();
+  }
+}
+
+const STATUS_LABELS: Record<Exclude<DetectionStatus, 'ok'>, string> = {
+  no_hand: 'No hand found',
+  occluded: 'Hand partly hidden',
+  ambiguous: 'Unclear pose',
+  low_quality: 'Poor image quality',
+};
+
+/** A server result, or a file that could not be read before upload. */
+type BatchRowResult = DetectFingerBatchItemResult | { id: string; ok: false; error: { message: string } };
+
+interface BatchRow {
+  id: string;
+  fileName: string;
+  result: BatchRowResult | null;
+}
+
+function describeResult(result: BatchRow['result']): string {
+  if (result === null) {
+    return 'Waiting...';
+  }
+  if (!result.ok) {
+    return result.error.message;
+  }
+  const { output } = result;
+  if (output.status !== 'ok') {
+    return STATUS_LABELS[output.status];
+  }
+  return `${output.numberOfFingers} finger${output.numberOfFingers === 1 ? '' : 's'}`;
+}
+
+export default function BatchDetectionCard() {
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [completed, setCompleted] = useState(0);
+  const [isRunning, setIsRunning] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const handleFilesSelected = async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []).filter(file => file.type.startsWith('image/'));
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    if (files.length === 0) {
+      return;
+    }
+    if (files.length > MAX_BATCH_FILES) {
+      toast({ variant: 'destructive', title: 'Too Many Photos', description: `Select at most ${MAX_BATCH_FILES} photos at a time.` });
+      return;
+    }
+
+    const batchRows: BatchRow[] = files.map((file, index) => ({ id: `${index}:${file.name}`, fileName: file.name, result: null }));
+    setRows(batchRows);
+    setCompleted(0);
+    setIsRunning(true);
+
+    try {
+      // Photos the browser cannot decode are reported in place and never sent.
+      const unreadable = new Map<string, BatchRowResult>();
+      const encoded = await Promise.all(files.map(async (file, index) => {
+        const { id } = batchRows[index];
+        try {
+          return { id, photoDataUri: await fileToDataUri(file) };
+        } catch (err) {
+          console.warn(`Could not read ${file.name}:`, err);
+          unreadable.set(id, { id, ok: false, error: { message: 'This file could not be read as an image.' } });
+          return null;
+        }
+      }));
+      const items = encoded.filter(item => item !== null);
+      setRows(prevRows => prevRows.map(row => (unreadable.has(row.id) ? { ...row, result: unreadable.get(row.id)! } : row)));
+      setCompleted(unreadable.size);
+      if (items.length === 0) {
+        return;
+      }
+
+      const { stream, output } = streamFlow<typeof detectFingerBatchFlow>({ url: BATCH_FLOW_URL, input: { items } });
+      for await (const progress of stream) {
+        setCompleted(unreadable.size + progress.completed);
+      }
+      const { results, failed } = await output;
+      const resultsById = new Map(results.map(result => [result.id, result]));
+      setRows(prevRows => prevRows.map(row => ({ ...row, result: resultsById.get(row.id) ?? row.result })));
+      const problems = failed + unreadable.size;
+      toast({
+        title: 'Batch Complete',
+        description: `${files.length - problems} of ${files.length} photos analyzed${problems > 0 ? `, ${problems} failed` : ''}.`,
+      });
+    } catch (err) {
+      // Individual photos fail as values; this means the whole request failed.
+      console.error('Batch detection failed:', err);
+      toast({ variant: 'destructive', title: 'Batch Failed', description: 'Could not reach the detection service. Check your connection and try again.' });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle className="text-xl">Batch Photos</CardTitle>
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isRunning}>
+            {isRunning ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Images className="mr-1 h-4 w-4" />}
+            {isRunning ? 'Analyzing...' : 'Choose Photos'}
+          </Button>
+        </div>
+        <CardDescription>Count the fingers in up to {MAX_BATCH_FILES} saved photos at once.</CardDescription>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={(e) => handleFilesSelected(e.target.files)}
+        />
+      </CardHeader>
+      {rows.length > 0 && (
+        <CardContent className="space-y-3">
+          <div className="space-y-1">
+            <Progress value={(completed / rows.length) * 100} aria-label="Batch progress" />
+            <p className="text-xs text-muted-foreground">{completed} of {rows.length} photos done</p>
+          </div>
+          <ScrollArea className="h-48 w-full pr-3">
+            <div className="space-y-2">
+              {rows.map(row => (
+                <div key={row.id} className="flex items-center justify-between gap-3 rounded-md border px-3 py-2 text-sm">
+                  <span className="truncate font-medium" title={row.fileName}>{row.fileName}</span>
+                  <span className="flex items-center gap-2 shrink-0">
+                    {row.result?.ok && row.result.output.cached && <Badge variant="secondary">Cached</Badge>}
+                    <span className={row.result && !row.result.ok ? 'text-destructive' : 'text-muted-foreground'}>
+                      {describeResult(row.result)}
+                    </span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
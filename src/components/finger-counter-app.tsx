@@ -2,21 +2,172 @@
 "use client";
 
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { detectNumberOfFingers } from '@/ai/flows/detect-number-of-fingers';
+import { streamFlow } from '@genkit-ai/next/client';
+import type { DetectedHand, DetectionError, DetectionErrorKind, DetectionStage, DetectionStatus } from '@/ai/flows/detect-number-of-fingers';
+import type { detectNumberOfFingersStreamFlow } from '@/ai/flows/detect-number-of-fingers-flow';
+import { detectFingersOverTime } from '@/ai/flows/detect-fingers-over-time';
+import { recognizeSignNumeral, type SignNumeralStatus } from '@/ai/flows/recognize-sign-numeral';
+import { recognizeHandGesture, type GestureStatus, type HandGesture } from '@/ai/flows/recognize-hand-gesture';
+import { getDetectionQuota, type QuotaStatus } from '@/ai/rate-limit/actions';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Loader2, Camera, AlertTriangle, Hand, Plus, XIcon, Divide, Trash2, Eraser, ScanLine, Volume2, TimerIcon } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import BatchDetectionCard from '@/components/batch-detection-card';
+import { Loader2, Camera, AlertTriangle, Hand, Plus, XIcon, Divide, Trash2, Eraser, ScanLine, Volume2, TimerIcon, Info, ShieldCheck, ShieldAlert } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
+import { redactFaces } from '@/lib/face-redaction';
 
 
 type PermissionStatus = 'idle' | 'pending' | 'granted' | 'denied';
+type ScanMode = 'count' | 'steady' | 'sign' | 'gesture';
 
+const DETECT_FLOW_URL = '/api/flows/detect-number-of-fingers';
 const VIDEO_WIDTH = 640;
 const VIDEO_HEIGHT = 480;
 const SCAN_COUNTDOWN_SECONDS = 3;
+const MIN_CONFIDENCE = 0.6;
+const SIGN_FRAME_COUNT = 4;
+const SIGN_FRAME_INTERVAL_MS = 250;
+// Steady counting samples the last second of the countdown.
+const STEADY_FRAME_COUNT = 5;
+const STEADY_FRAME_INTERVAL_MS = 200;
+
+const DETECTION_STATUS_MESSAGES: Record<Exclude<DetectionStatus, 'ok'>, { title: string; description: string }> = {
+  no_hand: {
+    title: 'No Hand Detected',
+    description: 'No hand was found in the frame. Hold your hand up in front of the camera and try again.',
+  },
+  occluded: {
+    title: 'Hand Partly Hidden',
+    description: 'Your hand is too covered to count reliably. Make sure all fingers are in view and try again.',
+  },
+  ambiguous: {
+    title: 'Unclear Pose',
+    description: 'The pose could be read as more than one count. Spread your fingers clearly and try again.',
+  },
+  low_quality: {
+    title: 'Poor Image Quality',
+    description: 'The frame is too dark, blurry or small to analyze. Improve the lighting, hold still and try again.',
+  },
+};
+
+const OVERLAY_BOX_COLOR = '#008080';
+const OVERLAY_TIP_COLOR = '#ffffff';
+
+/**
+ * Draws hand bounding boxes and fingertips onto the overlay canvas.
+ *
+ * Detection coordinates are normalized to the captured frame, which is not
+ * mirrored, while the video element is shown mirrored (`scale-x-[-1]`). The
+ * x axis is flipped here rather than mirroring the canvas with CSS so that
+ * the labels stay readable.
+ */
+function drawHandOverlay(canvas: HTMLCanvasElement, hands: DetectedHand[]) {
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return;
+  }
+  const { width, height } = canvas;
+  context.clearRect(0, 0, width, height);
+
+  hands.forEach(hand => {
+    const box = hand.boundingBox;
+    const left = (1 - box.x - box.width) * width;
+    const top = box.y * height;
+
+    context.strokeStyle = OVERLAY_BOX_COLOR;
+    context.lineWidth = 3;
+    context.strokeRect(left, top, box.width * width, box.height * height);
+
+    const label = `${hand.handedness} ${hand.numberOfFingers}`;
+    context.font = 'bold 16px sans-serif';
+    const labelWidth = context.measureText(label).width + 8;
+    const labelTop = Math.max(0, top - 22);
+    context.fillStyle = OVERLAY_BOX_COLOR;
+    context.fillRect(left, labelTop, labelWidth, 22);
+    context.fillStyle = OVERLAY_TIP_COLOR;
+    context.textBaseline = 'middle';
+    context.fillText(label, left + 4, labelTop + 11);
+
+    hand.fingertips.forEach(tip => {
+      context.beginPath();
+      context.arc((1 - tip.x) * width, tip.y * height, 6, 0, 2 * Math.PI);
+      context.fillStyle = OVERLAY_TIP_COLOR;
+      context.fill();
+      context.strokeStyle = OVERLAY_BOX_COLOR;
+      context.lineWidth = 2;
+      context.stroke();
+    });
+  });
+}
+
+const SIGN_NUMERAL_STATUS_MESSAGES: Record<Exclude<SignNumeralStatus, 'ok'>, { title: string; description: string }> = {
+  no_hand: DETECTION_STATUS_MESSAGES.no_hand,
+  not_a_numeral: {
+    title: 'Not a Sign Numeral',
+    description: 'That does not look like an ASL number from 0 to 10. Check the handshape and try again.',
+  },
+  ambiguous: {
+    title: 'Unclear Sign',
+    description: 'The sign could be read as more than one number. Hold the handshape clearly (and shake it for 10) and try again.',
+  },
+  low_quality: DETECTION_STATUS_MESSAGES.low_quality,
+};
+
+const GESTURE_STATUS_MESSAGES: Record<Exclude<GestureStatus, 'ok'>, { title: string; description: string }> = {
+  no_hand: DETECTION_STATUS_MESSAGES.no_hand,
+  unknown_gesture: {
+    title: 'Unknown Gesture',
+    description: 'That does not look like a gesture we know. Try a thumbs up, peace sign or open palm.',
+  },
+  low_quality: DETECTION_STATUS_MESSAGES.low_quality,
+};
+
+const GESTURE_LABELS: Record<HandGesture, { label: string; emoji: string }> = {
+  thumbs_up: { label: 'Thumbs up', emoji: '👍' },
+  thumbs_down: { label: 'Thumbs down', emoji: '👎' },
+  ok: { label: 'OK', emoji: '👌' },
+  peace: { label: 'Peace', emoji: '✌️' },
+  rock: { label: 'Rock on', emoji: '🤘' },
+  open_palm: { label: 'Open palm', emoji: '🖐️' },
+  fist: { label: 'Fist', emoji: '✊' },
+  pointing: { label: 'Pointing', emoji: '☝️' },
+};
+
+const DETECTION_STAGE_LABELS: Record<DetectionStage, string> = {
+  validating: 'Checking photo...',
+  preprocessing: 'Preparing frame...',
+  cache_hit: 'Found a recent match',
+  model_call: 'Counting fingers...',
+  post_validation: 'Checking the answer...',
+};
+
+const DETECTION_ERROR_TITLES: Record<DetectionErrorKind, string> = {
+  invalid_input: 'Invalid Photo',
+  model_unavailable: 'Detection Unavailable',
+  rate_limited: 'Slow Down',
+  quota_exceeded: 'Daily Limit Reached',
+  safety_blocked: 'Photo Blocked',
+  malformed_output: 'Unreadable Result',
+  timeout: 'Detection Timed Out',
+  cancelled: 'Detection Cancelled',
+};
+
+const UNSTABLE_COUNT_MESSAGE = {
+  title: 'Hand Moved',
+  description: 'The count changed while scanning. Hold your hand still until the scan finishes and try again.',
+};
+
+const LOW_CONFIDENCE_MESSAGE = {
+  title: 'Not Sure About That One',
+  description: 'The count could not be determined with enough confidence. Hold your hand steady and try again.',
+};
 
 interface AnimatedNumberProps {
   value: number | null;
@@ -33,20 +184,94 @@ const AnimatedNumberDisplay: React.FC<AnimatedNumberProps> = ({ value }) => {
   );
 };
 
+interface GestureDisplayProps {
+  gesture: { gesture: HandGesture; confidence: number } | null;
+}
+
+const GestureDisplay: React.FC<GestureDisplayProps> = ({ gesture }) => {
+  return (
+    <div
+      key={gesture === null ? 'null' : gesture.gesture}
+      className="bg-accent text-accent-foreground p-3 rounded-lg shadow-xl animate-number-pop flex flex-col items-center justify-center min-w-[7rem] min-h-[5rem] sm:min-h-[7rem]"
+    >
+      {gesture === null ? (
+        <span className="text-6xl sm:text-7xl font-bold">-</span>
+      ) : (
+        <>
+          <span className="text-5xl sm:text-6xl" aria-hidden="true">{GESTURE_LABELS[gesture.gesture].emoji}</span>
+          <span className="text-lg font-semibold">{GESTURE_LABELS[gesture.gesture].label}</span>
+          <span className="text-xs opacity-80">{Math.round(gesture.confidence * 100)}% sure</span>
+        </>
+      )}
+    </div>
+  );
+};
+
+interface HandCountsProps {
+  hands: DetectedHand[];
+}
+
+const HandCountsDisplay: React.FC<HandCountsProps> = ({ hands }) => {
+  if (hands.length === 0) {
+    return null;
+  }
+  // List hands left to right as the user sees themselves in the mirrored feed.
+  const sortedHands = [...hands].sort((a, b) => (a.handedness === b.handedness ? 0 : a.handedness === 'left' ? -1 : 1));
+  return (
+    <div className="flex flex-col gap-2" aria-label="Finger count per hand">
+      {sortedHands.map((hand, index) => (
+        <div
+          key={`${hand.handedness}-${index}`}
+          className="flex items-center justify-between gap-3 rounded-md border bg-card px-3 py-1 shadow-sm"
+        >
+          <span className="text-sm font-medium capitalize text-muted-foreground">{hand.handedness}</span>
+          <span className="text-2xl font-bold">{hand.numberOfFingers}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/** Whether face blurring pixelated a face, or found none and sent the frame as it was. */
+type FaceRedaction = 'blurred' | 'none_found';
+
+/** A captured video frame, ready to send for detection. */
+interface CapturedFrame {
+  photoDataUri: string;
+  /** Null when face blurring is turned off. */
+  faceRedaction: FaceRedaction | null;
+}
+
+/** Warns about a burst of frames if any one of them went out without a face found. */
+function summarizeFaceRedaction(frames: CapturedFrame[]): FaceRedaction | null {
+  return frames.some(frame => frame.faceRedaction === 'none_found') ? 'none_found' : frames[0]?.faceRedaction ?? null;
+}
+
 interface HistoryItem {
   id: string;
   value: number;
   timestamp: number;
+  cached: boolean;
+  mode: ScanMode;
 }
 
 export default function FingerCounterApp() {
   const [permissionStatus, setPermissionStatus] = useState<PermissionStatus>('idle');
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [detectedFingers, setDetectedFingers] = useState<number | null>(null);
+  const [detectedHands, setDetectedHands] = useState<DetectedHand[]>([]);
+  const [detectedGesture, setDetectedGesture] = useState<{ gesture: HandGesture; confidence: number } | null>(null);
+  const [detectedStability, setDetectedStability] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [detectionStage, setDetectionStage] = useState<DetectionStage | null>(null);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [detectionNotice, setDetectionNotice] = useState<{ title: string; description: string } | null>(null);
   const [scanCountdown, setScanCountdown] = useState<number | null>(null);
+  const [scanMode, setScanMode] = useState<ScanMode>('count');
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+  const [blurFaces, setBlurFaces] = useState(true);
+  const [faceRedaction, setFaceRedaction] = useState<FaceRedaction | null>(null);
 
   const [history, setHistory] = useState<HistoryItem[]>([]);
   const [selectedHistoryItemIds, setSelectedHistoryItemIds] = useState<string[]>([]);
@@ -54,7 +279,9 @@ export default function FingerCounterApp() {
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
   const countdownIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const steadyFramesRef = useRef<Promise<CapturedFrame[] | null> | null>(null);
   const { toast } = useToast();
 
   const requestCameraPermission = async () => {
@@ -83,7 +310,7 @@ export default function FingerCounterApp() {
     }
   };
 
-  const speakNumber = (number: number) => {
+  const speak = (text: string) => {
     if (!('speechSynthesis' in window)) {
       toast({
         variant: 'default',
@@ -96,7 +323,7 @@ export default function FingerCounterApp() {
     
     window.speechSynthesis.cancel(); 
 
-    const utterance = new SpeechSynthesisUtterance(`Detected ${number} finger${number === 1 ? '' : 's'}`);
+    const utterance = new SpeechSynthesisUtterance(text);
     utterance.lang = 'en-US'; 
     utterance.onstart = () => {
       setIsSpeaking(true);
@@ -116,70 +343,255 @@ export default function FingerCounterApp() {
     window.speechSynthesis.speak(utterance);
   };
 
-  const captureFrameAndDetect = useCallback(async () => {
+  const showDetectionError = useCallback((detectionError: DetectionError) => {
+    const title = DETECTION_ERROR_TITLES[detectionError.kind];
+    if (detectionError.retryable) {
+      // Transient problems are not the user's fault: explain and invite a
+      // rescan rather than showing a blocking error.
+      setDetectionNotice({ title, description: `${detectionError.message} Scan again to retry.` });
+      toast({ title, description: detectionError.message });
+    } else {
+      setError(`${title}: ${detectionError.message}`);
+      toast({ variant: 'destructive', title, description: detectionError.message });
+    }
+  }, [toast]);
+
+  const showDetectionNotice = useCallback((notice: { title: string; description: string }) => {
+    setDetectedFingers(null);
+    setDetectedHands([]);
+    setDetectedGesture(null);
+    setDetectedStability(null);
+    setDetectionNotice(notice);
+    toast({ title: notice.title, description: notice.description });
+  }, [toast]);
+
+  const addToHistory = useCallback((value: number, mode: ScanMode, cached: boolean) => {
+    if (history.length === 0 || history[history.length - 1].value !== value) {
+      setHistory(prevHistory => {
+        const newHistoryItem: HistoryItem = {
+          id: crypto.randomUUID(),
+          value,
+          timestamp: Date.now(),
+          cached,
+          mode,
+        };
+        const updatedHistory = [...prevHistory, newHistoryItem];
+        return updatedHistory.slice(-50);
+      });
+    }
+  }, [history]);
+
+  /**
+   * Draws the current video frame to the hidden canvas, pixelating faces if
+   * enabled, and returns it as a JPEG data URI.
+   */
+  const captureFrame = useCallback(async (): Promise<CapturedFrame | null> => {
     if (!videoRef.current || !canvasRef.current || videoRef.current.paused || videoRef.current.ended || videoRef.current.readyState < videoRef.current.HAVE_METADATA) {
       console.warn("Video stream is not available, not playing, or not ready for capture.");
       setError("Video stream is not available or not ready. Please ensure camera is active.");
-      setIsLoading(false); 
-      return;
+      return null;
     }
 
-    setIsLoading(true);
     const canvas = canvasRef.current;
     const video = videoRef.current;
     canvas.width = VIDEO_WIDTH;
     canvas.height = VIDEO_HEIGHT;
     const context = canvas.getContext('2d');
+    if (!context) {
+      setError("Failed to get canvas context.");
+      return null;
+    }
+
+    try {
+      context.drawImage(video, 0, 0, VIDEO_WIDTH, VIDEO_HEIGHT);
+    } catch (drawError) {
+      console.error("Error drawing video to canvas:", drawError);
+      setError("Failed to capture frame for AI processing. Video stream might be corrupted or inaccessible.");
+      return null;
+    }
+    // Faces are pixelated on the canvas itself, so they never leave the browser.
+    const faceRedaction = blurFaces ? ((await redactFaces(canvas)) > 0 ? 'blurred' : 'none_found') : null;
+    const photoDataUri = canvas.toDataURL('image/jpeg', 0.8);
 
-    if (context) {
-      try {
-        context.drawImage(video, 0, 0, VIDEO_WIDTH, VIDEO_HEIGHT);
-      } catch (drawError) {
-        console.error("Error drawing video to canvas:", drawError);
-        setError("Failed to capture frame for AI processing. Video stream might be corrupted or inaccessible.");
-        setIsLoading(false);
-        return;
+    if (!photoDataUri || photoDataUri === "data:,") {
+      setError("Failed to capture frame from video.");
+      return null;
+    }
+    return { photoDataUri, faceRedaction };
+  }, [blurFaces]);
+
+  /** Captures `count` frames `intervalMs` apart, oldest first, or returns null if any capture fails. */
+  const captureFrameSequence = useCallback(async (count: number, intervalMs: number): Promise<CapturedFrame[] | null> => {
+    const frames: CapturedFrame[] = [];
+    for (let i = 0; i < count; i++) {
+      if (i > 0) {
+        await new Promise(resolve => setTimeout(resolve, intervalMs));
       }
-      const photoDataUri = canvas.toDataURL('image/jpeg', 0.8);
-      
-      if (!photoDataUri || photoDataUri === "data:,") {
-        setError("Failed to capture frame from video.");
-        setIsLoading(false);
-        return;
+      const frame = await captureFrame();
+      if (!frame) {
+        return null;
       }
+      frames.push(frame);
+    }
+    return frames;
+  }, [captureFrame]);
 
-      try {
-        const result = await detectNumberOfFingers({ photoDataUri });
-        setDetectedFingers(result.numberOfFingers);
-        setError(null); 
-
-        if (history.length === 0 || history[history.length - 1].value !== result.numberOfFingers) {
-          setHistory(prevHistory => {
-            const newHistoryItem: HistoryItem = {
-              id: crypto.randomUUID(),
-              value: result.numberOfFingers,
-              timestamp: Date.now(),
-            };
-            const updatedHistory = [...prevHistory, newHistoryItem];
-            return updatedHistory.slice(-50);
-          });
+  const countFingers = useCallback(async (photoDataUri: string) => {
+    // Streamed over HTTP rather than called as a server action, which cannot
+    // report progress, so the overlay can say what the scan is waiting on.
+    const { stream, output } = streamFlow<typeof detectNumberOfFingersStreamFlow>({ url: DETECT_FLOW_URL, input: { photoDataUri } });
+    for await (const progress of stream) {
+      setDetectionStage(progress.stage);
+    }
+    const response = await output;
+    if (!response.ok) {
+      setDetectedFingers(null);
+      setDetectedHands([]);
+      showDetectionError(response.error);
+      return;
+    }
+
+    const result = response.output;
+    setError(null); 
+
+    if (result.status !== 'ok' || result.confidence < MIN_CONFIDENCE) {
+      // Refuse to record or announce a count we cannot stand behind, e.g. a
+      // "0" that really means there was no hand in the frame.
+      showDetectionNotice(result.status === 'ok' ? LOW_CONFIDENCE_MESSAGE : DETECTION_STATUS_MESSAGES[result.status]);
+      return;
+    }
+
+    setDetectedFingers(result.numberOfFingers);
+    setDetectedHands(result.hands);
+    setDetectionNotice(null);
+    addToHistory(result.numberOfFingers, 'count', result.cached);
+    speak(`Detected ${result.numberOfFingers} finger${result.numberOfFingers === 1 ? '' : 's'}`);
+  }, [addToHistory, showDetectionError, showDetectionNotice]);
+
+  const countSteadyFingers = useCallback(async (photoDataUris: string[]) => {
+    const response = await detectFingersOverTime({ photoDataUris });
+    if (!response.ok) {
+      setDetectedFingers(null);
+      setDetectedHands([]);
+      setDetectedStability(null);
+      showDetectionError(response.error);
+      return;
+    }
+
+    const result = response.output;
+    setError(null);
+
+    if (result.status !== 'ok' || result.confidence < MIN_CONFIDENCE) {
+      // A count that changed mid-scan is exactly what this mode exists to catch.
+      showDetectionNotice(
+        result.status === 'unstable' ? UNSTABLE_COUNT_MESSAGE
+          : result.status === 'ok' ? LOW_CONFIDENCE_MESSAGE
+          : DETECTION_STATUS_MESSAGES[result.status]
+      );
+      return;
+    }
+
+    setDetectedFingers(result.numberOfFingers);
+    setDetectedHands(result.hands);
+    setDetectedStability(result.stability);
+    setDetectionNotice(null);
+    addToHistory(result.numberOfFingers, 'steady', result.cached);
+    speak(`Detected ${result.numberOfFingers} finger${result.numberOfFingers === 1 ? '' : 's'}`);
+  }, [addToHistory, showDetectionError, showDetectionNotice]);
+
+  const readSignNumeral = useCallback(async (photoDataUris: string[]) => {
+    const response = await recognizeSignNumeral({ photoDataUris });
+    if (!response.ok) {
+      setDetectedFingers(null);
+      setDetectedHands([]);
+      showDetectionError(response.error);
+      return;
+    }
+
+    const result = response.output;
+    setError(null);
+
+    if (result.status !== 'ok' || result.numeral === null || result.confidence < MIN_CONFIDENCE) {
+      showDetectionNotice(result.status === 'ok' ? LOW_CONFIDENCE_MESSAGE : SIGN_NUMERAL_STATUS_MESSAGES[result.status]);
+      return;
+    }
+
+    setDetectedFingers(result.numeral);
+    setDetectedHands([]);
+    setDetectionNotice(null);
+    addToHistory(result.numeral, 'sign', false);
+    speak(`Signed number ${result.numeral}`);
+  }, [addToHistory, showDetectionError, showDetectionNotice]);
+
+  const identifyGesture = useCallback(async (photoDataUri: string) => {
+    const response = await recognizeHandGesture({ photoDataUri });
+    if (!response.ok) {
+      setDetectedGesture(null);
+      showDetectionError(response.error);
+      return;
+    }
+
+    const result = response.output;
+    setError(null);
+
+    if (result.status !== 'ok' || result.gesture === null || result.confidence < MIN_CONFIDENCE) {
+      showDetectionNotice(result.status === 'ok' ? LOW_CONFIDENCE_MESSAGE : GESTURE_STATUS_MESSAGES[result.status]);
+      return;
+    }
+
+    setDetectedGesture({ gesture: result.gesture, confidence: result.confidence });
+    setDetectionNotice(null);
+    speak(GESTURE_LABELS[result.gesture].label);
+  }, [showDetectionError, showDetectionNotice]);
+
+  const refreshQuota = useCallback(() => {
+    getDetectionQuota()
+      .then(setQuota)
+      .catch(err => console.warn("Could not load the detection quota:", err));
+  }, []);
+
+  const captureFrameAndDetect = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      if (scanMode === 'count' || scanMode === 'gesture') {
+        const frame = await captureFrame();
+        if (frame) {
+          setFaceRedaction(frame.faceRedaction);
+          await (scanMode === 'count' ? countFingers(frame.photoDataUri) : identifyGesture(frame.photoDataUri));
+        }
+      } else if (scanMode === 'steady') {
+        // The frames were captured during the last second of the countdown;
+        // fall back to capturing them now if the countdown was skipped.
+        const frames = await (steadyFramesRef.current ?? captureFrameSequence(STEADY_FRAME_COUNT, STEADY_FRAME_INTERVAL_MS));
+        steadyFramesRef.current = null;
+        if (frames) {
+          setFaceRedaction(summarizeFaceRedaction(frames));
+          await countSteadyFingers(frames.map(frame => frame.photoDataUri));
+        }
+      } else {
+        // A short burst of frames lets the model see motion, which the
+        // numeral 10 depends on.
+        const frames = await captureFrameSequence(SIGN_FRAME_COUNT, SIGN_FRAME_INTERVAL_MS);
+        if (frames) {
+          setFaceRedaction(summarizeFaceRedaction(frames));
+          await readSignNumeral(frames.map(frame => frame.photoDataUri));
         }
-        speakNumber(result.numberOfFingers);
-
-      } catch (err) {
-        console.error("Error detecting fingers:", err);
-        setError(err instanceof Error ? `AI detection failed: ${err.message}` : "AI detection failed due to an unknown error.");
-        toast({
-          variant: 'destructive',
-          title: 'AI Detection Error',
-          description: err instanceof Error ? err.message : "An unknown error occurred during detection.",
-        });
       }
-    } else {
-      setError("Failed to get canvas context.");
+    } catch (err) {
+      // Only reached when the server action itself could not be called,
+      // e.g. the network dropped; detection failures come back as values.
+      console.error("Error detecting fingers:", err);
+      showDetectionError({
+        kind: 'model_unavailable',
+        message: 'Could not reach the detection service. Check your connection and try again.',
+        retryable: true,
+      });
+    } finally {
+      setIsLoading(false);
+      setDetectionStage(null);
+      refreshQuota();
     }
-    setIsLoading(false);
-  }, [history, toast]); 
+  }, [scanMode, captureFrame, captureFrameSequence, countFingers, countSteadyFingers, readSignNumeral, identifyGesture, showDetectionError, refreshQuota]); 
 
   // Stream management effect
   useEffect(() => {
@@ -202,6 +614,18 @@ export default function FingerCounterApp() {
     };
   }, [stream]);
   
+  // Redraw the hand overlay whenever the detected hands change
+  useEffect(() => {
+    if (overlayCanvasRef.current) {
+      drawHandOverlay(overlayCanvasRef.current, detectedHands);
+    }
+  }, [detectedHands, permissionStatus]);
+
+  // Load the remaining quota; this also starts the session it is tracked by
+  useEffect(() => {
+    refreshQuota();
+  }, [refreshQuota]);
+
   // Permission query and general cleanup effect
   useEffect(() => {
     if (typeof navigator !== "undefined" && navigator.permissions) {
@@ -232,6 +656,10 @@ export default function FingerCounterApp() {
       return; 
     }
     setDetectedFingers(null); 
+    setDetectedHands([]);
+    setDetectedGesture(null);
+    setDetectedStability(null);
+    setDetectionNotice(null);
     setError(null);
 
     if (countdownIntervalRef.current) { 
@@ -255,6 +683,13 @@ export default function FingerCounterApp() {
     }, 1000);
   };
 
+  // In steady mode, start sampling frames for the last second of the countdown
+  useEffect(() => {
+    if (scanCountdown === 1 && scanMode === 'steady') {
+      steadyFramesRef.current = captureFrameSequence(STEADY_FRAME_COUNT, STEADY_FRAME_INTERVAL_MS);
+    }
+  }, [scanCountdown, scanMode, captureFrameSequence]);
+
   // Effect to trigger scan when countdown reaches zero
   useEffect(() => {
     if (scanCountdown === 0) {
@@ -381,6 +816,14 @@ export default function FingerCounterApp() {
           </Alert>
         )}
         
+        {detectionNotice && !error && (
+          <Alert className="w-full">
+            <Info className="h-5 w-5" />
+            <AlertTitle>{detectionNotice.title}</AlertTitle>
+            <AlertDescription>{detectionNotice.description}</AlertDescription>
+          </Alert>
+        )}
+
         {permissionStatus === 'denied' && !error && ( 
            <Alert variant="destructive" className="w-full">
             <AlertTriangle className="h-5 w-5" />
@@ -415,15 +858,76 @@ export default function FingerCounterApp() {
                     setError(`Video element error: ${videoRef.current?.error?.message || 'Unknown video error'}. Please ensure your camera is working and permissions are granted.`);
                   }}
                 />
+                <canvas
+                  ref={overlayCanvasRef}
+                  width={VIDEO_WIDTH}
+                  height={VIDEO_HEIGHT}
+                  className="absolute inset-0 w-full h-full pointer-events-none"
+                  aria-hidden="true"
+                />
+                {faceRedaction === 'blurred' && (
+                  <Badge variant="secondary" className="absolute top-2 left-2 gap-1" title="A face was pixelated before the last scan was sent">
+                    <ShieldCheck className="h-3 w-3" /> Face blurred
+                  </Badge>
+                )}
+                {faceRedaction === 'none_found' && (
+                  <Badge variant="destructive" className="absolute top-2 left-2 gap-1" title="Face blurring found no face, so the last scan was sent without any blurring">
+                    <ShieldAlert className="h-3 w-3" /> No face detected — frame sent as-is
+                  </Badge>
+                )}
                 {(isLoading || isSpeaking || scanCountdown !== null) && videoRef.current?.srcObject && (
                    <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50">
                       {scanCountdown !== null && <TimerIcon className="h-12 w-12 text-white animate-pulse" />}
-                      {isLoading && scanCountdown === null && <Loader2 className="h-12 w-12 text-white animate-spin" />}
+                      {isLoading && scanCountdown === null && (
+                        <div className="flex flex-col items-center gap-2" role="status" aria-live="polite">
+                          <Loader2 className="h-12 w-12 text-white animate-spin" />
+                          {detectionStage && (
+                            <span className="rounded bg-black/60 px-2 py-1 text-sm font-medium text-white">
+                              {DETECTION_STAGE_LABELS[detectionStage]}
+                            </span>
+                          )}
+                        </div>
+                      )}
                       {isSpeaking && scanCountdown === null && !isLoading && <Volume2 className="h-12 w-12 text-white" />}
                    </div>
                 )}
               </div>
-              <AnimatedNumberDisplay value={detectedFingers} />
+              {scanMode === 'gesture' ? (
+                <GestureDisplay gesture={detectedGesture} />
+              ) : (
+                <div className="flex items-center justify-center gap-4">
+                  <div className="flex flex-col items-center gap-1">
+                    <AnimatedNumberDisplay value={detectedFingers} />
+                    {scanMode === 'steady' && detectedStability !== null && (
+                      <span className="text-xs text-muted-foreground">{Math.round(detectedStability * 100)}% steady</span>
+                    )}
+                  </div>
+                  <HandCountsDisplay hands={detectedHands} />
+                </div>
+              )}
+              <Tabs
+                value={scanMode}
+                onValueChange={(value) => {
+                  setScanMode(value as ScanMode);
+                  setDetectedFingers(null);
+                  setDetectedHands([]);
+                  setDetectedGesture(null);
+                  setDetectedStability(null);
+                  setDetectionNotice(null);
+                  setFaceRedaction(null);
+                }}
+              >
+                <TabsList>
+                  <TabsTrigger value="count" disabled={scanButtonDisabled}>Count fingers</TabsTrigger>
+                  <TabsTrigger value="steady" disabled={scanButtonDisabled}>Steady count</TabsTrigger>
+                  <TabsTrigger value="sign" disabled={scanButtonDisabled}>Read sign numeral</TabsTrigger>
+                  <TabsTrigger value="gesture" disabled={scanButtonDisabled}>Recognize gesture</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              <div className="flex items-center gap-2">
+                <Switch id="blur-faces" checked={blurFaces} onCheckedChange={setBlurFaces} />
+                <Label htmlFor="blur-faces" className="text-sm">Blur faces before sending</Label>
+              </div>
               <Button
                 onClick={handleScanAndAnnounce}
                 disabled={scanButtonDisabled || !stream} 
@@ -433,6 +937,11 @@ export default function FingerCounterApp() {
                 {scanButtonIcon}
                 {scanButtonText}
               </Button>
+              {quota && quota.remaining !== null && (
+                <p className={`text-xs ${quota.remaining === 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
+                  {quota.remaining} of {quota.limit} detections left today
+                </p>
+              )}
             </div>
 
             <div className="flex flex-col space-y-4 w-full">
@@ -444,7 +953,7 @@ export default function FingerCounterApp() {
                       <Trash2 className="mr-1 h-4 w-4" /> Clear All
                     </Button>
                   </div>
-                  <CardDescription>Detected finger counts. Click to select for calculation.</CardDescription>
+                  <CardDescription>Detected finger counts and sign numerals. Click to select for calculation.</CardDescription>
                 </CardHeader>
                 <CardContent>
                   {history.length === 0 ? (
@@ -459,8 +968,15 @@ export default function FingerCounterApp() {
                             className="w-full justify-between text-left h-auto py-2 px-3"
                             onClick={() => handleToggleHistoryItemSelection(item.id)}
                           >
-                            <span className="font-semibold text-lg">{item.value} finger{item.value === 1 ? '' : 's'}</span>
-                            <span className="text-xs text-muted-foreground">{formatDistanceToNow(item.timestamp, { addSuffix: true })}</span>
+                            <span className="font-semibold text-lg">
+                              {item.mode === 'sign' ? `Sign ${item.value}` : `${item.value} finger${item.value === 1 ? '' : 's'}`}
+                            </span>
+                            <span className="flex items-center gap-2">
+                              {item.cached && (
+                                <Badge variant="secondary" title="Reused from an earlier scan of the same pose">Cached</Badge>
+                              )}
+                              <span className="text-xs text-muted-foreground">{formatDistanceToNow(item.timestamp, { addSuffix: true })}</span>
+                            </span>
                           </Button>
                         ))}
                       </div>
@@ -506,6 +1022,7 @@ export default function FingerCounterApp() {
             </div>
           </div>
         )}
+        <BatchDetectionCard />
         <canvas ref={canvasRef} className="hidden" aria-hidden="true"></canvas>
       </CardContent>
       <CardFooter className="text-xs text-muted-foreground justify-center flex flex-col items-center space-y-1 pt-4">
@@ -0,0 +1,317 @@
+/**
+ * Pixelates faces on a canvas in place, so that scans sent to the detection
+ * service do not carry a recognizable face.
+ *
+ * Faces are found with the browser's FaceDetector (the Shape Detection API)
+ * where it is available. Elsewhere they are found with the same skin-tone
+ * heuristic the server uses to find hands (see src/ai/image/skin-regions.ts),
+ * without downloading a model: a face is a large, solid, upright skin region
+ * with a smooth outline and a pair of eyes, which show up as two holes side
+ * by side in its upper part. A fist has the outline but not the eyes, so the
+ * hand being counted is not blurred. Either can miss a face, e.g. in poor
+ * light or pressed against a hand, so callers should tell the user when none
+ * was found.
+ */
+
+/** Width the frame is reduced to before analysis; plenty for locating a face. */
+const ANALYSIS_WIDTH = 160;
+/** Regions smaller than this fraction of the frame are too small to identify anyone. */
+const MIN_FACE_AREA_FRACTION = 0.015;
+/**
+ * Squared perimeter over 4π times the area is about 1 for an oval and several
+ * times that for a hand with fingers raised. Keep in step with
+ * MIN_HAND_OUTLINE_RATIO in src/ai/image/hand-crop.ts.
+ */
+const MAX_FACE_OUTLINE_RATIO = 1.5;
+/** Faces are roughly as tall as, or taller than, they are wide. */
+const MIN_FACE_ASPECT = 0.8;
+const MAX_FACE_ASPECT = 2.2;
+/** Share of its bounding box an oval fills, less some slack for hair and shadows. */
+const MIN_FACE_FILL = 0.5;
+/** Eyes sit in this top share of a face's bounding box, which includes the forehead. */
+const EYE_BAND = 0.65;
+/** Eye centres differ in height by at most this share of the face height... */
+const MAX_EYE_HEIGHT_DIFFERENCE = 0.15;
+/** ...and are at least this share of the face width apart. */
+const MIN_EYE_SEPARATION = 0.2;
+/** Margin blurred around each face, as a fraction of its size, to cover ears and hairline. */
+const FACE_PADDING = 0.2;
+/** How many blocks a face is reduced to across its width. */
+const PIXELATED_BLOCKS = 6;
+
+interface Region {
+  area: number;
+  perimeter: number;
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+  /** Centres of the non-skin holes enclosed by the region, such as eyes and mouth. */
+  holes: { x: number; y: number }[];
+}
+
+interface SkinMask {
+  /** Skin pixels, with enclosed holes filled in so a face is one region. */
+  mask: Uint8Array;
+  /** The holes that were filled in. */
+  holes: Uint8Array;
+}
+
+/** A face's bounding box, in canvas pixels. */
+interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** The parts of the Shape Detection API used here, which TypeScript does not declare yet. */
+interface BrowserFaceDetector {
+  detect(image: HTMLCanvasElement): Promise<{ boundingBox: DOMRectReadOnly }[]>;
+}
+type BrowserFaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => BrowserFaceDetector;
+
+let faceDetector: BrowserFaceDetector | null | undefined;
+
+/** Pixelates every face found on the canvas and returns how many there were. */
+export async function redactFaces(canvas: HTMLCanvasElement): Promise<number> {
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return 0;
+  }
+  const faces = (await detectFaces(canvas)) ?? findFacesBySkinTone(canvas);
+
+  const block = document.createElement('canvas');
+  const blockContext = block.getContext('2d');
+  if (!blockContext) {
+    return 0;
+  }
+  for (const face of faces) {
+    const padX = face.width * FACE_PADDING;
+    const padY = face.height * FACE_PADDING;
+    const left = Math.max(0, Math.floor(face.x - padX));
+    const top = Math.max(0, Math.floor(face.y - padY));
+    const right = Math.min(canvas.width, Math.ceil(face.x + face.width + padX));
+    const bottom = Math.min(canvas.height, Math.ceil(face.y + face.height + padY));
+    if (right <= left || bottom <= top) {
+      continue;
+    }
+    // Shrink the face to a handful of blocks and stretch it back unsmoothed.
+    block.width = PIXELATED_BLOCKS;
+    block.height = Math.max(1, Math.round((PIXELATED_BLOCKS * (bottom - top)) / (right - left)));
+    blockContext.drawImage(canvas, left, top, right - left, bottom - top, 0, 0, block.width, block.height);
+    context.save();
+    context.imageSmoothingEnabled = false;
+    context.drawImage(block, 0, 0, block.width, block.height, left, top, right - left, bottom - top);
+    context.restore();
+  }
+  return faces.length;
+}
+
+/**
+ * Faces found by the browser's FaceDetector, or null when there is none.
+ * Some browsers declare it but cannot run it on every platform, so a
+ * detector that fails is not tried again.
+ */
+async function detectFaces(canvas: HTMLCanvasElement): Promise<FaceBox[] | null> {
+  if (faceDetector === undefined) {
+    const FaceDetector = (window as { FaceDetector?: BrowserFaceDetectorConstructor }).FaceDetector;
+    faceDetector = FaceDetector ? new FaceDetector({ fastMode: true, maxDetectedFaces: 10 }) : null;
+  }
+  if (!faceDetector) {
+    return null;
+  }
+  try {
+    const faces = await faceDetector.detect(canvas);
+    return faces.map(({ boundingBox }) => ({
+      x: boundingBox.x,
+      y: boundingBox.y,
+      width: boundingBox.width,
+      height: boundingBox.height,
+    }));
+  } catch (err) {
+    console.warn('FaceDetector failed; finding faces by skin tone instead:', err);
+    faceDetector = null;
+    return null;
+  }
+}
+
+/** Face-like skin regions of the canvas, found on a downscaled copy. */
+function findFacesBySkinTone(canvas: HTMLCanvasElement): FaceBox[] {
+  const scale = Math.min(1, ANALYSIS_WIDTH / canvas.width);
+  const width = Math.max(1, Math.round(canvas.width * scale));
+  const height = Math.max(1, Math.round(canvas.height * scale));
+  return findFaceRegions(loadSkinMask(canvas, width, height), width, height).map(region => ({
+    x: region.left / scale,
+    y: region.top / scale,
+    width: (region.right - region.left + 1) / scale,
+    height: (region.bottom - region.top + 1) / scale,
+  }));
+}
+
+/** Marks skin-coloured pixels of a downscaled copy of the canvas, with enclosed holes (eyes, mouth) filled in. */
+function loadSkinMask(canvas: HTMLCanvasElement, width: number, height: number): SkinMask {
+  const analysis = document.createElement('canvas');
+  analysis.width = width;
+  analysis.height = height;
+  const context = analysis.getContext('2d', { willReadFrequently: true });
+  const mask = new Uint8Array(width * height);
+  if (!context) {
+    return { mask, holes: new Uint8Array(mask.length) };
+  }
+  context.drawImage(canvas, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+  for (let i = 0; i < mask.length; i++) {
+    mask[i] = isSkinTone(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]) ? 1 : 0;
+  }
+
+  // Background reachable from the border stays background; anything else is a hole.
+  const outside = new Uint8Array(mask.length);
+  const border: number[] = [];
+  for (let i = 0; i < mask.length; i++) {
+    const x = i % width;
+    const y = (i - x) / width;
+    if ((x === 0 || y === 0 || x === width - 1 || y === height - 1) && !mask[i]) {
+      border.push(i);
+    }
+  }
+  floodFill(border, width, height, index => !mask[index] && !outside[index], index => (outside[index] = 1));
+  return {
+    mask: mask.map((_, i) => (outside[i] ? 0 : 1)),
+    holes: mask.map((skin, i) => (skin || outside[i] ? 0 : 1)),
+  };
+}
+
+/** YCbCr chroma thresholds, as used by src/ai/image/skin-regions.ts. */
+function isSkinTone(r: number, g: number, b: number): boolean {
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+}
+
+function findFaceRegions({ mask, holes }: SkinMask, width: number, height: number): Region[] {
+  const labels = new Int32Array(mask.length);
+  const regions: Region[] = [];
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) {
+      continue;
+    }
+    const label = regions.length + 1;
+    const region: Region = { area: 0, perimeter: 0, left: width, top: height, right: 0, bottom: 0, holes: [] };
+    regions.push(region);
+    floodFill([start], width, height, index => mask[index] === 1 && !labels[index], index => {
+      labels[index] = label;
+      const x = index % width;
+      const y = (index - x) / width;
+      region.area++;
+      region.left = Math.min(region.left, x);
+      region.right = Math.max(region.right, x);
+      region.top = Math.min(region.top, y);
+      region.bottom = Math.max(region.bottom, y);
+    });
+  }
+
+  // Each hole lies inside exactly one region, which it was filled in as part of.
+  const seen = new Uint8Array(holes.length);
+  for (let start = 0; start < holes.length; start++) {
+    if (!holes[start] || seen[start]) {
+      continue;
+    }
+    let sumX = 0;
+    let sumY = 0;
+    let count = 0;
+    floodFill([start], width, height, index => holes[index] === 1 && !seen[index], index => {
+      seen[index] = 1;
+      const x = index % width;
+      sumX += x;
+      sumY += (index - x) / width;
+      count++;
+    });
+    regions[labels[start] - 1].holes.push({ x: sumX / count, y: sumY / count });
+  }
+
+  // A pixel is on the outline when one of its neighbours is not part of its region.
+  for (let index = 0; index < labels.length; index++) {
+    const label = labels[index];
+    if (!label) {
+      continue;
+    }
+    const x = index % width;
+    const y = (index - x) / width;
+    if (
+      x === 0 ||
+      y === 0 ||
+      x === width - 1 ||
+      y === height - 1 ||
+      labels[index - 1] !== label ||
+      labels[index + 1] !== label ||
+      labels[index - width] !== label ||
+      labels[index + width] !== label
+    ) {
+      regions[label - 1].perimeter++;
+    }
+  }
+
+  return regions.filter(region => {
+    const boxWidth = region.right - region.left + 1;
+    const boxHeight = region.bottom - region.top + 1;
+    const aspect = boxHeight / boxWidth;
+    return (
+      region.area >= width * height * MIN_FACE_AREA_FRACTION &&
+      (region.perimeter * region.perimeter) / (4 * Math.PI * region.area) <= MAX_FACE_OUTLINE_RATIO &&
+      aspect >= MIN_FACE_ASPECT &&
+      aspect <= MAX_FACE_ASPECT &&
+      region.area / (boxWidth * boxHeight) >= MIN_FACE_FILL &&
+      hasEyePair(region)
+    );
+  });
+}
+
+/** Whether two of the region's holes sit side by side in its upper part, as eyes do. */
+function hasEyePair({ holes, left, top, right, bottom }: Region): boolean {
+  const boxWidth = right - left + 1;
+  const boxHeight = bottom - top + 1;
+  const upper = holes.filter(hole => hole.y - top < boxHeight * EYE_BAND);
+  return upper.some((a, i) =>
+    upper
+      .slice(i + 1)
+      .some(
+        b =>
+          Math.abs(a.y - b.y) <= boxHeight * MAX_EYE_HEIGHT_DIFFERENCE &&
+          Math.abs(a.x - b.x) >= boxWidth * MIN_EYE_SEPARATION
+      )
+  );
+}
+
+/**
+ * Depth-first fill over 4-connected neighbours from `seeds`. `visit` is called
+ * for each seed and each neighbour that `include` accepts, and must mark the
+ * pixel so that it is not included again.
+ */
+function floodFill(
+  seeds: number[],
+  width: number,
+  height: number,
+  include: (index: number) => boolean,
+  visit: (index: number) => void
+): void {
+  const stack = [...seeds];
+  seeds.forEach(visit);
+  while (stack.length > 0) {
+    const index = stack.pop()!;
+    const x = index % width;
+    const y = (index - x) / width;
+    const neighbours = [
+      x > 0 ? index - 1 : -1,
+      x < width - 1 ? index + 1 : -1,
+      y > 0 ? index - width : -1,
+      y < height - 1 ? index + width : -1,
+    ];
+    for (const neighbour of neighbours) {
+      if (neighbour >= 0 && include(neighbour)) {
+        visit(neighbour);
+        stack.push(neighbour);
+      }
+    }
+  }
+}